@@ -6,12 +6,16 @@ import EndGameDialog from "./components/EndGameDialog";
 import GameBoard from "./components/GameBoard";
 import GameSetup from "./components/GameSetup";
 import SecretCard from "./components/SecretCard";
+import TurnTimeline from "./components/TurnTimeline";
 import { ChevronDownIcon, ChevronUpIcon } from "./components/icons";
 import { useGameLogic } from "./hooks/useGameLogic";
 import { GameState } from "./types";
 
 function App() {
     const [isSecretPanelVisible, setSecretPanelVisible] = useState(true);
+    const [isEndGameDialogClosed, setEndGameDialogClosed] = useState(false);
+    /** The AI turn shown on the AI's board, or `null` for the current board. */
+    const [viewedAITurn, setViewedAITurn] = useState<number | null>(null);
 
     const {
         // State
@@ -23,6 +27,7 @@ function App() {
         winner,
         winReason,
         isLoading,
+        loadingMessage,
         playerEliminatedChars,
         aiRemainingChars,
         aiStatus,
@@ -30,30 +35,79 @@ function App() {
         downloadProgress,
         defaultCharsWithBlobs,
         hasCustomSet,
+        hasSavedGame,
         lastAIAnalysis,
+        aiTurnHistory,
+        gameAudit,
+        answerWarning,
         isReviewModeEnabled,
-
-        // State Setters
-        setGameState,
-        setPlayerEliminatedChars,
+        isVotingEnabled,
+        difficulty,
+        assistMode,
+        undoPolicy,
+        requestedSeed,
+        seed,
+        endTurnWarning,
+        aiTurnStatus,
+        pendingGuess,
+        canUndoFlip,
+        canUndoAnswer,
 
         // Handlers
         startGame,
         resetGame,
+        openSetup,
+        openCustomSetup,
+        handleToggleCard,
+        handleUndoFlip,
         handleStartDefault,
         handleStartWithCustomSet,
+        handleResumeGame,
+        handleExportTranscript,
         handlePlayerQuestion,
         handleEndTurn,
+        endTurn,
+        dismissEndTurnWarning,
+        handleDisputeAnswer,
+        handleRestoreDisputedCards,
+        handleExplainAnswer,
+        startGuess,
+        cancelGuess,
+        selectGuessCandidate,
+        confirmGuess,
+        askPendingGuessAsQuestion,
         handlePlayerAnswer,
+        handleUndoAnswer,
+        confirmAnswerWarning,
+        cancelAnswerWarning,
         handleConfirmAIAnalysis,
+        handleToggleAnalysisVerdict,
         handleSetReviewMode,
+        handleSetVoting,
+        handleSetDifficulty,
+        handleSetAssistMode,
+        handleSetUndoPolicy,
+        handleSetRequestedSeed,
         handleDownload,
     } = useGameLogic();
 
+    // A turn picked on the timeline replaces the live board until the player returns to "Now".
+    const viewedTurnRecord = viewedAITurn !== null ? aiTurnHistory[viewedAITurn] : undefined;
+
     const aiEliminatedChars = useMemo(() => {
-        const remainingIds = new Set(aiRemainingChars.map((c) => c.character_id));
+        const remainingIds = new Set(viewedTurnRecord?.remainingIds ?? aiRemainingChars.map((c) => c.character_id));
         return new Set(activeCharacters.filter((c) => !remainingIds.has(c.character_id)).map((c) => c.character_id));
-    }, [aiRemainingChars, activeCharacters]);
+    }, [viewedTurnRecord, aiRemainingChars, activeCharacters]);
+
+    const handlePlayAgain = () => {
+        setEndGameDialogClosed(false);
+        setViewedAITurn(null);
+        resetGame();
+    };
+
+    const isGuessing = gameState === GameState.PLAYER_TURN_ASKING && !!pendingGuess;
+    const guessCandidate = activeCharacters.find((c) => c.character_id === pendingGuess?.characterId);
+    const isReviewingAnalysis = gameState === GameState.PLAYER_REVIEWING_AI_ANALYSIS;
 
     const renderContent = () => {
         switch (gameState) {
@@ -61,21 +115,34 @@ function App() {
                 return (
                     <GameSetup
                         onStartDefault={handleStartDefault}
-                        onStartCustom={() => setGameState(GameState.CUSTOM_SETUP)}
+                        onStartCustom={openCustomSetup}
                         onStartWithCustomSet={handleStartWithCustomSet}
+                        onResumeGame={handleResumeGame}
                         aiStatus={aiStatus}
                         aiStatusMessage={aiStatusMessage}
                         downloadProgress={downloadProgress}
                         hasDefaultChars={!!defaultCharsWithBlobs}
                         hasCustomSet={hasCustomSet}
+                        hasSavedGame={hasSavedGame}
                         isLoading={isLoading}
+                        loadingMessage={loadingMessage}
                         isReviewModeEnabled={isReviewModeEnabled}
                         onSetReviewMode={handleSetReviewMode}
+                        isVotingEnabled={isVotingEnabled}
+                        onSetVoting={handleSetVoting}
+                        difficulty={difficulty}
+                        onSetDifficulty={handleSetDifficulty}
+                        assistMode={assistMode}
+                        onSetAssistMode={handleSetAssistMode}
+                        undoPolicy={undoPolicy}
+                        onSetUndoPolicy={handleSetUndoPolicy}
+                        seed={requestedSeed}
+                        onSetSeed={handleSetRequestedSeed}
                         onDownload={handleDownload}
                     />
                 );
             case GameState.CUSTOM_SETUP:
-                return <CustomGameSetup onStartGame={startGame} onBack={() => setGameState(GameState.SETUP)} />;
+                return <CustomGameSetup onStartGame={startGame} onBack={openSetup} />;
             case GameState.GAME_OVER:
             case GameState.PLAYER_TURN_ASKING:
             case GameState.PLAYER_TURN_ELIMINATING:
@@ -86,7 +153,7 @@ function App() {
                     return (
                         <div className={styles.errorContainer}>
                             Error: Game not initialized correctly.
-                            <button onClick={resetGame} className={styles.restartButton}>
+                            <button onClick={handlePlayAgain} className={styles.restartButton}>
                                 Restart
                             </button>
                         </div>
@@ -95,7 +162,16 @@ function App() {
                 return (
                     <>
                         <div className={styles.gameContainer}>
-                            {winner && <EndGameDialog winner={winner} reason={winReason} onPlayAgain={resetGame} />}
+                            {winner && !isEndGameDialogClosed && (
+                                <EndGameDialog
+                                    winner={winner}
+                                    reason={winReason}
+                                    audit={gameAudit}
+                                    onPlayAgain={handlePlayAgain}
+                                    onClose={() => setEndGameDialogClosed(true)}
+                                    onExportTranscript={handleExportTranscript}
+                                />
+                            )}
                             <div className={styles.mainGrid}>
                                 <div
                                     className={`${styles.secretCardsPanel} ${
@@ -109,6 +185,26 @@ function App() {
                                     <div className={styles.sidePanel}>
                                         <h2 className={styles.sidePanelTitleAi}>AI's Card</h2>
                                         <SecretCard character={aiSecret} revealed={gameState === GameState.GAME_OVER} />
+                                        {seed && (
+                                            <p className={styles.seedInfo}>
+                                                Game seed: <code>{seed}</code>
+                                            </p>
+                                        )}
+                                        <p className={styles.seedInfo}>
+                                            Export transcript:{" "}
+                                            <button
+                                                onClick={() => handleExportTranscript("json")}
+                                                className={styles.exportButton}
+                                            >
+                                                JSON
+                                            </button>{" "}
+                                            <button
+                                                onClick={() => handleExportTranscript("markdown")}
+                                                className={styles.exportButton}
+                                            >
+                                                Markdown
+                                            </button>
+                                        </p>
                                     </div>
                                 </div>
 
@@ -128,13 +224,27 @@ function App() {
                                             characters={activeCharacters}
                                             eliminatedChars={aiEliminatedChars}
                                             analysis={
-                                                gameState === GameState.PLAYER_REVIEWING_AI_ANALYSIS
-                                                    ? lastAIAnalysis
-                                                    : undefined
+                                                viewedTurnRecord?.analysis ??
+                                                (isReviewingAnalysis ? lastAIAnalysis : undefined)
                                             }
+                                            onCardClick={(id) => {
+                                                if (isReviewingAnalysis && !viewedTurnRecord) {
+                                                    handleToggleAnalysisVerdict(id);
+                                                }
+                                            }}
+                                        />
+                                        <TurnTimeline
+                                            history={aiTurnHistory}
+                                            characters={activeCharacters}
+                                            selectedTurn={viewedTurnRecord ? viewedAITurn : null}
+                                            onSelectTurn={setViewedAITurn}
                                         />
                                         <p className={styles.boardSubtext}>
-                                            The AI eliminates characters from its own board.
+                                            {viewedTurnRecord
+                                                ? "Hover over a card to see the AI's reasoning for this turn."
+                                                : isReviewingAnalysis
+                                                  ? "Click a card to correct the AI's verdict."
+                                                  : "The AI eliminates characters from its own board."}
                                         </p>
                                     </div>
                                     <div className={styles.boardWrapper}>
@@ -142,21 +252,21 @@ function App() {
                                         <GameBoard
                                             characters={activeCharacters}
                                             eliminatedChars={playerEliminatedChars}
+                                            selectedId={isGuessing ? pendingGuess?.characterId : null}
+                                            disabledIds={isGuessing ? playerEliminatedChars : undefined}
                                             onCardClick={(id) => {
-                                                if (gameState === GameState.PLAYER_TURN_ELIMINATING) {
-                                                    setPlayerEliminatedChars((prev) => {
-                                                        const newSet = new Set(prev);
-                                                        if (newSet.has(id)) {
-                                                            newSet.delete(id);
-                                                        } else {
-                                                            newSet.add(id);
-                                                        }
-                                                        return newSet;
-                                                    });
+                                                if (isGuessing) {
+                                                    selectGuessCandidate(id);
+                                                } else if (gameState === GameState.PLAYER_TURN_ELIMINATING) {
+                                                    handleToggleCard(id);
                                                 }
                                             }}
                                         />
-                                        <p className={styles.boardSubtext}>Click on cards to eliminate them.</p>
+                                        <p className={styles.boardSubtext}>
+                                            {isGuessing
+                                                ? "Click the card you want to guess."
+                                                : "Click on cards to eliminate them."}
+                                        </p>
                                     </div>
                                 </div>
                             </div>
@@ -165,9 +275,31 @@ function App() {
                                     messages={messages}
                                     gameState={gameState}
                                     isLoading={isLoading}
+                                    aiTurnStatus={aiTurnStatus}
                                     onPlayerQuestion={handlePlayerQuestion}
                                     onEndTurn={handleEndTurn}
+                                    canUndoFlip={canUndoFlip}
+                                    onUndoFlip={handleUndoFlip}
+                                    canUndoAnswer={canUndoAnswer}
+                                    onUndoAnswer={handleUndoAnswer}
+                                    endTurnWarning={endTurnWarning}
+                                    onEndTurnAnyway={endTurn}
+                                    onDismissEndTurnWarning={dismissEndTurnWarning}
+                                    onPlayAgain={handlePlayAgain}
+                                    onDisputeAnswer={handleDisputeAnswer}
+                                    onRestoreDisputedCards={handleRestoreDisputedCards}
+                                    onExplainAnswer={handleExplainAnswer}
+                                    isGuessing={isGuessing}
+                                    guessCandidateName={guessCandidate?.name}
+                                    canAskGuessAsQuestion={!!pendingGuess?.question}
+                                    onStartGuess={startGuess}
+                                    onCancelGuess={cancelGuess}
+                                    onConfirmGuess={confirmGuess}
+                                    onAskGuessAsQuestion={askPendingGuessAsQuestion}
                                     onPlayerAnswer={handlePlayerAnswer}
+                                    answerWarning={answerWarning}
+                                    onConfirmAnswerWarning={confirmAnswerWarning}
+                                    onCancelAnswerWarning={cancelAnswerWarning}
                                     onConfirmAIAnalysis={handleConfirmAIAnalysis}
                                 />
                             </div>
@@ -180,4 +312,4 @@ function App() {
     return <main className={styles.appContainer}>{renderContent()}</main>;
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,4 +1,5 @@
 import React, { type ComponentPropsWithoutRef, useCallback } from "react";
+import { LOW_CONFIDENCE_THRESHOLD } from "../constants";
 import { type Character } from "../types";
 import styles from "./CharacterCard.module.css";
 import { CheckIcon, XIcon } from "./icons";
@@ -8,31 +9,54 @@ export type CharacterCardProps = Omit<ComponentPropsWithoutRef<"div">, "onClick"
     character: Character;
     /** Whether the card is flipped over (eliminated). */
     isEliminated: boolean;
+    /** Whether the card is highlighted as selected. */
+    isSelected?: boolean;
+    /** Whether clicking the card does nothing right now. */
+    isDisabled?: boolean;
     /** Callback function when the card is clicked. */
     onClick: (id: string) => void;
     /** The result of the AI's analysis for this card (true/false). */
     analysisResult?: boolean | null;
+    /** How strongly the AI's voting passes agreed on `analysisResult` (0-1), if voting was used. */
+    analysisConfidence?: number;
+    /** Whether the player corrected `analysisResult` while reviewing the analysis. */
+    isAnalysisCorrected?: boolean;
+    /** The AI's reasoning for `analysisResult`, shown as a tooltip. */
+    analysisReasoning?: string;
 };
 
 /**
  * A card component that displays a character's image and name.
  * It can be flipped to show it has been eliminated.
  */
-function CharacterCard({ character, isEliminated, onClick, analysisResult, className, ...props }: CharacterCardProps) {
+function CharacterCard({
+    character,
+    isEliminated,
+    isSelected = false,
+    isDisabled = false,
+    onClick,
+    analysisResult,
+    analysisConfidence,
+    isAnalysisCorrected = false,
+    analysisReasoning,
+    className,
+    ...props
+}: CharacterCardProps) {
     const containerClasses = `${styles.flipContainer} ${isEliminated ? styles.isFlipped : ""}`;
 
     const handleClick = useCallback(() => {
+        if (isDisabled) return;
         onClick(character.character_id);
-    }, [character.character_id, onClick]);
+    }, [character.character_id, isDisabled, onClick]);
 
     const handleKeyDown = useCallback(
         (event: React.KeyboardEvent<HTMLDivElement>) => {
             if (event.key === "Enter" || event.key === " ") {
                 event.preventDefault();
-                onClick(character.character_id);
+                if (!isDisabled) onClick(character.character_id);
             }
         },
-        [character.character_id, onClick],
+        [character.character_id, isDisabled, onClick],
     );
 
     const renderAnalysisOverlay = () => {
@@ -40,25 +64,47 @@ function CharacterCard({ character, isEliminated, onClick, analysisResult, class
 
         const icon = analysisResult ? <CheckIcon /> : <XIcon />;
         const overlayClass = analysisResult ? styles.analysisOverlayPositive : styles.analysisOverlayNegative;
-        const label = analysisResult
+        const isLowConfidence =
+            !isAnalysisCorrected && analysisConfidence !== undefined && analysisConfidence < LOW_CONFIDENCE_THRESHOLD;
+        let label = analysisResult
             ? "AI thinks this character HAS the feature."
             : "AI thinks this character DOES NOT have the feature.";
+        if (isAnalysisCorrected) {
+            label = analysisResult
+                ? "You corrected the AI: this character HAS the feature."
+                : "You corrected the AI: this character DOES NOT have the feature.";
+        } else if (isLowConfidence) {
+            label += ` The AI is unsure (${Math.round(analysisConfidence * 100)}% agreement).`;
+        }
+        if (analysisReasoning && !isAnalysisCorrected) {
+            label += ` ${analysisReasoning}`;
+        }
 
         return (
-            <div className={`${styles.analysisOverlay} ${overlayClass}`} aria-label={label}>
+            <div
+                className={`${styles.analysisOverlay} ${overlayClass} ${isLowConfidence ? styles.analysisOverlayUncertain : ""} ${isAnalysisCorrected ? styles.analysisOverlayCorrected : ""}`}
+                aria-label={label}
+                title={label}
+            >
                 {icon}
+                {isLowConfidence && (
+                    <span className={styles.confidenceBadge}>{Math.round(analysisConfidence * 100)}%</span>
+                )}
+                {isAnalysisCorrected && <span className={styles.confidenceBadge}>Corrected</span>}
             </div>
         );
     };
 
     return (
         <div
-            className={`${styles.perspectiveContainer} ${className || ""}`}
+            className={`${styles.perspectiveContainer} ${isSelected ? styles.isSelected : ""} ${isDisabled ? styles.isDisabled : ""} ${className || ""}`}
             onClick={handleClick}
             onKeyDown={handleKeyDown}
-            aria-label={`Character card for ${character.name}. ${isEliminated ? "Eliminated." : "Active."}`}
+            aria-label={`Character card for ${character.name}. ${isEliminated ? "Eliminated." : "Active."}${isSelected ? " Selected." : ""}`}
+            aria-pressed={isSelected}
+            aria-disabled={isDisabled}
             role="button"
-            tabIndex={0}
+            tabIndex={isDisabled ? -1 : 0}
             {...props}
         >
             <div className={containerClasses}>
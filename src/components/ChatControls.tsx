@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from "react";
+import { type AITurnStatus } from "../hooks/useAITurnScheduler";
 import { useSpeechToText } from "../hooks/useSpeechToText";
 import { GameState, type Message } from "../types";
 import styles from "./ChatControls.module.css";
@@ -11,12 +12,56 @@ export type ChatControlsProps = {
     gameState: GameState;
     /** A boolean indicating if an operation is in progress. */
     isLoading: boolean;
+    /** The status of the current AI turn, used to describe what the AI is doing. */
+    aiTurnStatus?: AITurnStatus;
     /** Callback for when the player submits a question. */
     onPlayerQuestion: (question: string) => void;
     /** Callback for when the player ends their turn. */
     onEndTurn: () => void;
+    /** Whether the player can take back their latest card flip. */
+    canUndoFlip: boolean;
+    /** Callback to take back the latest card flip. */
+    onUndoFlip: () => void;
+    /** Whether the player can take back their last answer to the AI's question. */
+    canUndoAnswer: boolean;
+    /** Callback to take back the last answer and answer the AI's question again. */
+    onUndoAnswer: () => void;
+    /** A warning about likely elimination mistakes, shown instead of ending the turn, if any. */
+    endTurnWarning: string | null;
+    /** Callback to end the turn despite the warning. */
+    onEndTurnAnyway: () => void;
+    /** Callback to go back to flipping cards after a warning. */
+    onDismissEndTurnWarning: () => void;
+    /** Callback to start a new game once this one is over. */
+    onPlayAgain: () => void;
+    /** Callback for when the player disputes one of the AI's answers. */
+    onDisputeAnswer: (answerId: string) => void;
+    /** Callback to restore the cards flipped because of an overturned answer. */
+    onRestoreDisputedCards: (answerId: string) => void;
+    /** Callback for when the player asks the AI to explain one of its answers. */
+    onExplainAnswer: (answerId: string) => void;
+    /** Whether the player is choosing a card to guess. */
+    isGuessing: boolean;
+    /** The name of the card currently selected as the guess, if any. */
+    guessCandidateName?: string;
+    /** Whether the guess came from typed text that can still be asked as a normal question. */
+    canAskGuessAsQuestion: boolean;
+    /** Callback for when the player wants to make a guess. */
+    onStartGuess: () => void;
+    /** Callback for when the player abandons the guess. */
+    onCancelGuess: () => void;
+    /** Callback for when the player confirms the selected guess. */
+    onConfirmGuess: () => void;
+    /** Callback to send the typed text as a normal question instead of a guess. */
+    onAskGuessAsQuestion: () => void;
     /** Callback for when the player answers the AI's question. */
     onPlayerAnswer: (answer: "Yes" | "No") => void;
+    /** An answer held back because it does not seem to match the player's card, if any. */
+    answerWarning: { answer: "Yes" | "No"; text: string } | null;
+    /** Callback for when the player submits the answer they were warned about anyway. */
+    onConfirmAnswerWarning: () => void;
+    /** Callback for when the player goes back to change the answer they were warned about. */
+    onCancelAnswerWarning: () => void;
     /** Callback for when the player confirms they have reviewed the AI analysis. */
     onConfirmAIAnalysis: () => void;
 };
@@ -29,9 +74,31 @@ function ChatControls({
     messages,
     gameState,
     isLoading,
+    aiTurnStatus,
     onPlayerQuestion,
     onEndTurn,
+    canUndoFlip,
+    onUndoFlip,
+    canUndoAnswer,
+    onUndoAnswer,
+    endTurnWarning,
+    onEndTurnAnyway,
+    onDismissEndTurnWarning,
+    onPlayAgain,
+    onDisputeAnswer,
+    onRestoreDisputedCards,
+    onExplainAnswer,
+    isGuessing,
+    guessCandidateName,
+    canAskGuessAsQuestion,
+    onStartGuess,
+    onCancelGuess,
+    onConfirmGuess,
+    onAskGuessAsQuestion,
     onPlayerAnswer,
+    answerWarning,
+    onConfirmAnswerWarning,
+    onCancelAnswerWarning,
     onConfirmAIAnalysis,
 }: ChatControlsProps) {
     const [inputValue, setInputValue] = useState("");
@@ -77,27 +144,86 @@ function ChatControls({
                 messageStyle = styles.systemMessage;
                 break;
         }
+        const meta = msg.meta;
+        const dispute = meta?.dispute;
+        const explanation = meta?.explanation;
+        const isOverturned = dispute?.status === "overturned";
+        const canDispute = meta?.kind === "answer" && !dispute && gameState !== GameState.GAME_OVER;
+
         return (
-            <div key={index} className={`${styles.message} ${messageStyle}`}>
-                {msg.text}
+            <div key={msg.id ?? index} className={`${styles.message} ${messageStyle}`}>
+                <span className={isOverturned ? styles.overturnedText : undefined}>{msg.text}</span>
+                {dispute?.status === "pending" && <span className={styles.disputeNote}>Re-checking...</span>}
+                {dispute?.status === "upheld" && <span className={styles.disputeNote}>Disputed, answer upheld</span>}
+                {isOverturned && <span className={styles.disputeNote}>Disputed, answer overturned</span>}
+                {meta?.kind === "answer" && !explanation && (
+                    <button
+                        className={styles.messageAction}
+                        onClick={() => onExplainAnswer(msg.id!)}
+                        disabled={isLoading}
+                        title="Ask the AI why it answered this way"
+                    >
+                        Why?
+                    </button>
+                )}
+                {explanation?.status === "pending" && <span className={styles.disputeNote}>Explaining...</span>}
+                {canDispute && (
+                    <button
+                        className={styles.messageAction}
+                        onClick={() => onDisputeAnswer(msg.id!)}
+                        disabled={isLoading}
+                        title="Ask the AI to check this answer again"
+                    >
+                        Dispute
+                    </button>
+                )}
+                {isOverturned && !dispute.restored && gameState !== GameState.GAME_OVER && (
+                    <button
+                        className={styles.messageAction}
+                        onClick={() => onRestoreDisputedCards(msg.id!)}
+                        disabled={isLoading}
+                    >
+                        Restore cards
+                    </button>
+                )}
+                {explanation?.status === "ready" && (
+                    <details className={styles.explanation} open>
+                        <summary>Why?</summary>
+                        <p>{explanation.text}</p>
+                    </details>
+                )}
             </div>
         );
     };
 
-    const showInputForm = gameState === GameState.PLAYER_TURN_ASKING;
-    const showEndTurnButton = gameState === GameState.PLAYER_TURN_ELIMINATING;
+    const showInputForm = gameState === GameState.PLAYER_TURN_ASKING && !isGuessing;
+    const showGuessControls = gameState === GameState.PLAYER_TURN_ASKING && isGuessing;
+    const showEndTurnButton = gameState === GameState.PLAYER_TURN_ELIMINATING && !endTurnWarning;
+    const showEndTurnWarning = gameState === GameState.PLAYER_TURN_ELIMINATING && !!endTurnWarning;
     const showConfirmAnalysisButton = gameState === GameState.PLAYER_REVIEWING_AI_ANALYSIS;
-    const showAnswerButtons = gameState === GameState.AI_TURN_WAITING_FOR_ANSWER;
+    const showAnswerButtons = gameState === GameState.AI_TURN_WAITING_FOR_ANSWER && !answerWarning;
+    const showAnswerWarning = gameState === GameState.AI_TURN_WAITING_FOR_ANSWER && !!answerWarning;
+    const showPlayAgainButton = gameState === GameState.GAME_OVER;
 
     const isTranscribing = micStatus === "transcribing";
 
+    const getLoadingText = () => {
+        if (isTranscribing) return "Transcribing...";
+        if (gameState === GameState.AI_TURN && aiTurnStatus?.phase === "thinking") {
+            return aiTurnStatus.attempt > 1
+                ? `AI is thinking... (attempt ${aiTurnStatus.attempt} of ${aiTurnStatus.maxAttempts})`
+                : "AI is thinking...";
+        }
+        return "Processing...";
+    };
+
     return (
         <div className={styles.controlsContainer}>
             <div ref={chatLogRef} className={styles.chatLog} aria-live="polite">
                 {messages.map(renderMessage)}
                 {(isLoading || isTranscribing) && (
                     <div className={`${styles.message} ${styles.systemMessage} ${styles.loadingMessage}`}>
-                        {isTranscribing ? "Transcribing..." : "Processing..."}
+                        {getLoadingText()}
                     </div>
                 )}
             </div>
@@ -131,16 +257,110 @@ function ChatControls({
                         >
                             <SendIcon />
                         </button>
+                        <button
+                            type="button"
+                            onClick={onStartGuess}
+                            className={`${styles.actionButton} ${styles.guessButton}`}
+                            disabled={isLoading || isRecording}
+                        >
+                            Guess
+                        </button>
+                        {canUndoAnswer && (
+                            <button
+                                type="button"
+                                onClick={onUndoAnswer}
+                                className={`${styles.actionButton} ${styles.undoButton}`}
+                                disabled={isLoading || isRecording}
+                                title="Take back your last answer and answer the AI's question again"
+                            >
+                                Undo Answer
+                            </button>
+                        )}
                     </form>
                 )}
 
+                {showGuessControls && (
+                    <div className={styles.guessControls}>
+                        <p className={styles.guessPrompt}>
+                            {guessCandidateName
+                                ? `Guess that the AI's character is ${guessCandidateName}? A wrong guess loses the game.`
+                                : "Pick the card you want to guess on your board."}
+                        </p>
+                        <div className={styles.answerButtons}>
+                            <button
+                                onClick={onConfirmGuess}
+                                className={`${styles.actionButton} ${styles.yesButton}`}
+                                disabled={isLoading || !guessCandidateName}
+                            >
+                                Confirm Guess
+                            </button>
+                            {canAskGuessAsQuestion && (
+                                <button
+                                    onClick={onAskGuessAsQuestion}
+                                    className={`${styles.actionButton} ${styles.continueButton}`}
+                                    disabled={isLoading}
+                                >
+                                    Just Ask
+                                </button>
+                            )}
+                            <button
+                                onClick={onCancelGuess}
+                                className={`${styles.actionButton} ${styles.noButton}`}
+                                disabled={isLoading}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {showEndTurnButton && (
-                    <button
-                        onClick={onEndTurn}
-                        className={`${styles.actionButton} ${styles.endTurnButton}`}
-                        disabled={isLoading}
-                    >
-                        End Turn
+                    <div className={styles.turnButtons}>
+                        {canUndoFlip && (
+                            <button
+                                onClick={onUndoFlip}
+                                className={`${styles.actionButton} ${styles.undoButton}`}
+                                disabled={isLoading}
+                                title="Take back your latest card flip"
+                            >
+                                Undo Flip
+                            </button>
+                        )}
+                        <button
+                            onClick={onEndTurn}
+                            className={`${styles.actionButton} ${styles.endTurnButton}`}
+                            disabled={isLoading}
+                        >
+                            End Turn
+                        </button>
+                    </div>
+                )}
+
+                {showEndTurnWarning && (
+                    <div className={styles.guessControls} role="alert">
+                        <p className={styles.guessPrompt}>{endTurnWarning}</p>
+                        <div className={styles.answerButtons}>
+                            <button
+                                onClick={onDismissEndTurnWarning}
+                                className={`${styles.actionButton} ${styles.continueButton}`}
+                                disabled={isLoading}
+                            >
+                                Fix My Board
+                            </button>
+                            <button
+                                onClick={onEndTurnAnyway}
+                                className={`${styles.actionButton} ${styles.endTurnButton}`}
+                                disabled={isLoading}
+                            >
+                                End Turn Anyway
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {showPlayAgainButton && (
+                    <button onClick={onPlayAgain} className={`${styles.actionButton} ${styles.continueButton}`}>
+                        Play Again
                     </button>
                 )}
 
@@ -154,6 +374,28 @@ function ChatControls({
                     </button>
                 )}
 
+                {showAnswerWarning && (
+                    <div className={styles.guessControls} role="alert">
+                        <p className={styles.guessPrompt}>{answerWarning.text}</p>
+                        <div className={styles.answerButtons}>
+                            <button
+                                onClick={onCancelAnswerWarning}
+                                className={`${styles.actionButton} ${styles.continueButton}`}
+                                disabled={isLoading}
+                            >
+                                Change Answer
+                            </button>
+                            <button
+                                onClick={onConfirmAnswerWarning}
+                                className={`${styles.actionButton} ${styles.noButton}`}
+                                disabled={isLoading}
+                            >
+                                Answer "{answerWarning.answer}" Anyway
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {showAnswerButtons && (
                     <div className={styles.answerButtons}>
                         <button
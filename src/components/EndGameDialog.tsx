@@ -1,5 +1,6 @@
 import { type ComponentPropsWithoutRef } from "react";
-import { type GameWinner } from "../types";
+import { type TranscriptFormat } from "../services/transcript";
+import { type GameAuditEntry, type GameWinner } from "../types";
 import styles from "./EndGameDialog.module.css";
 
 export type EndGameDialogProps = ComponentPropsWithoutRef<"div"> & {
@@ -7,14 +8,46 @@ export type EndGameDialogProps = ComponentPropsWithoutRef<"div"> & {
     winner: GameWinner;
     /** The reason why the game ended. */
     reason: string;
+    /** The AI's questions checked against the player's real card. */
+    audit?: GameAuditEntry[];
     /** Callback function to start a new game. */
     onPlayAgain: () => void;
+    /** Callback function to close the dialog and look back at the finished game. */
+    onClose: () => void;
+    /** Callback to download a transcript of the game, e.g. to report a problem with the AI. */
+    onExportTranscript?: (format: TranscriptFormat) => void;
 };
 
 /**
  * A modal dialog that appears at the end of the game to announce the winner.
  */
-function EndGameDialog({ winner, reason, onPlayAgain, className, ...props }: EndGameDialogProps) {
+/**
+ * Describes what went wrong on a turn, if anything.
+ */
+const describeAuditFlags = (entry: GameAuditEntry): string[] => {
+    const flags: string[] = [];
+    if (entry.isVisionError) flags.push("The AI misjudged your card.");
+    if (entry.isAnswerError) flags.push("Your answer does not match your card.");
+    if (entry.isDisagreement) flags.push("You and the AI disagreed about your card.");
+    if (entry.contradictsEarlierAnswer) flags.push("You answered this question differently before.");
+    return flags;
+};
+
+const describeVerdict = (verdict: boolean | null): string => {
+    if (verdict === null) return "-";
+    return verdict ? "Yes" : "No";
+};
+
+function EndGameDialog({
+    winner,
+    reason,
+    audit = [],
+    onPlayAgain,
+    onClose,
+    onExportTranscript,
+    className,
+    ...props
+}: EndGameDialogProps) {
     if (!winner) return null;
 
     const isPlayerWin = winner === "PLAYER";
@@ -34,9 +67,61 @@ function EndGameDialog({ winner, reason, onPlayAgain, className, ...props }: End
                     {title}
                 </h2>
                 <p className={styles.reason}>{reason}</p>
-                <button onClick={onPlayAgain} className={styles.playAgainButton}>
-                    Play Again
-                </button>
+                {audit.length > 0 && (
+                    <details className={styles.audit}>
+                        <summary>
+                            How did the AI do? ({audit.filter((e) => describeAuditFlags(e).length > 0).length} of{" "}
+                            {audit.length} questions flagged)
+                        </summary>
+                        <table className={styles.auditTable}>
+                            <thead>
+                                <tr>
+                                    <th scope="col">AI's question</th>
+                                    <th scope="col">AI believed</th>
+                                    <th scope="col">You answered</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {audit.map((entry, index) => {
+                                    const flags = describeAuditFlags(entry);
+                                    return (
+                                        <tr key={index} className={flags.length > 0 ? styles.flaggedRow : undefined}>
+                                            <td>
+                                                {entry.question}
+                                                {flags.map((flag) => (
+                                                    <span key={flag} className={styles.auditFlag}>
+                                                        {flag}
+                                                    </span>
+                                                ))}
+                                            </td>
+                                            <td>{describeVerdict(entry.aiVerdict)}</td>
+                                            <td>{entry.answer}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </details>
+                )}
+                <div className={styles.buttons}>
+                    <button onClick={onClose} className={styles.reviewButton}>
+                        Review Game
+                    </button>
+                    <button onClick={onPlayAgain} className={styles.playAgainButton}>
+                        Play Again
+                    </button>
+                </div>
+                {onExportTranscript && (
+                    <p className={styles.export}>
+                        Export transcript:{" "}
+                        <button onClick={() => onExportTranscript("json")} className={styles.exportButton}>
+                            JSON
+                        </button>{" "}
+                        <button onClick={() => onExportTranscript("markdown")} className={styles.exportButton}>
+                            Markdown
+                        </button>
+                    </p>
+                )}
             </div>
         </div>
     );
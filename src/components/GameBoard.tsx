@@ -8,6 +8,10 @@ export type GameBoardProps = {
     characters: Character[];
     /** A set of IDs for characters that should be shown as eliminated. */
     eliminatedChars: Set<string>;
+    /** The id of the card to highlight as selected, e.g. the player's pending guess. */
+    selectedId?: string | null;
+    /** The ids of cards that cannot be clicked right now, e.g. eliminated cards while guessing. */
+    disabledIds?: Set<string>;
     /** A callback function for when a character card is clicked. */
     onCardClick?: (id: string) => void;
     /** The AI's analysis of the characters for the current question. */
@@ -17,12 +21,19 @@ export type GameBoardProps = {
 /**
  * Renders a grid of CharacterCard components for the game board.
  */
-function GameBoard({ characters, eliminatedChars, onCardClick = () => {}, analysis }: GameBoardProps) {
+function GameBoard({
+    characters,
+    eliminatedChars,
+    selectedId,
+    disabledIds,
+    onCardClick = () => {},
+    analysis,
+}: GameBoardProps) {
     const analysisMap = useMemo(() => {
         if (!analysis) return null;
-        const map = new Map<string, boolean>();
+        const map = new Map<string, EliminationAnalysisResult>();
         for (const result of analysis) {
-            map.set(result.id, result.has_feature);
+            map.set(result.id, result);
         }
         return map;
     }, [analysis]);
@@ -35,8 +46,13 @@ function GameBoard({ characters, eliminatedChars, onCardClick = () => {}, analys
                         key={char.character_id}
                         character={char}
                         isEliminated={eliminatedChars.has(char.character_id)}
+                        isSelected={selectedId === char.character_id}
+                        isDisabled={disabledIds?.has(char.character_id)}
                         onClick={onCardClick}
-                        analysisResult={analysisMap ? (analysisMap.get(char.character_id) ?? null) : null}
+                        analysisResult={analysisMap?.get(char.character_id)?.has_feature ?? null}
+                        analysisConfidence={analysisMap?.get(char.character_id)?.confidence}
+                        isAnalysisCorrected={analysisMap?.get(char.character_id)?.corrected}
+                        analysisReasoning={analysisMap?.get(char.character_id)?.reasoning}
                     />
                 ))}
             </div>
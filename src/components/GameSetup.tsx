@@ -1,7 +1,24 @@
 import React, { type ComponentPropsWithoutRef, useEffect, useRef, useState } from "react";
-import { AIStatus } from "../types";
+import * as builtInAIService from "../services/builtInAIService.ts";
+import { AIDifficulty, AIStatus, PlayerAssistMode, UndoPolicy } from "../types";
 import styles from "./GameSetup.module.css";
-import { CameraIcon, CheckCircleIcon, DownloadIcon, PlayAgainIcon, SpinnerIcon, UsersIcon } from "./icons";
+import { CameraIcon, CheckCircleIcon, DownloadIcon, PlayAgainIcon, ResumeIcon, SpinnerIcon, UsersIcon } from "./icons";
+
+const ASSIST_MODE_LABELS: Record<PlayerAssistMode, string> = {
+    [PlayerAssistMode.ASSIST]: "Assist",
+    [PlayerAssistMode.STRICT]: "Strict",
+};
+
+const UNDO_POLICY_LABELS: Record<UndoPolicy, string> = {
+    [UndoPolicy.CASUAL]: "Casual",
+    [UndoPolicy.COMPETITIVE]: "Competitive",
+};
+
+const UNDO_POLICY_DESCRIPTIONS: Record<UndoPolicy, string> = {
+    [UndoPolicy.CASUAL]:
+        "You can take back card flips until you end your turn, and your last answer to the AI until you ask your next question.",
+    [UndoPolicy.COMPETITIVE]: "No undo: every flip and answer counts.",
+};
 
 type SetupOptionCardProps = ComponentPropsWithoutRef<"button"> & {
     title: string;
@@ -26,6 +43,8 @@ export type GameSetupProps = {
     onStartCustom: () => void;
     /** Callback to start with a previously saved custom character set. */
     onStartWithCustomSet: () => void;
+    /** Callback to resume the game that was interrupted, e.g. by a reload. */
+    onResumeGame: () => void;
     /** The current status of the AI model. */
     aiStatus: AIStatus;
     /** A message describing the current AI status. */
@@ -36,12 +55,36 @@ export type GameSetupProps = {
     hasDefaultChars: boolean;
     /** Whether a custom character set has been saved by the user. */
     hasCustomSet: boolean;
+    /** Whether there is an interrupted game that can be resumed. */
+    hasSavedGame: boolean;
     /** Whether the app is in a general loading state. */
     isLoading: boolean;
+    /** An optional description of what is currently loading, e.g. the pre-game board analysis. */
+    loadingMessage?: string;
     /** Whether the AI analysis review mode is enabled. */
     isReviewModeEnabled: boolean;
     /** Callback to set the AI analysis review mode. */
     onSetReviewMode: (isEnabled: boolean) => void;
+    /** Whether the AI re-checks its analysis with self-consistency voting. */
+    isVotingEnabled: boolean;
+    /** Callback to enable or disable self-consistency voting. */
+    onSetVoting: (isEnabled: boolean) => void;
+    /** How strong the AI opponent plays. */
+    difficulty: AIDifficulty;
+    /** Callback to change the AI difficulty. */
+    onSetDifficulty: (difficulty: AIDifficulty) => void;
+    /** Whether the player's eliminations are checked. */
+    assistMode: PlayerAssistMode;
+    /** Callback to change the assist mode. */
+    onSetAssistMode: (mode: PlayerAssistMode) => void;
+    /** When the player may take back card flips and answers. */
+    undoPolicy: UndoPolicy;
+    /** Callback to change the undo policy. */
+    onSetUndoPolicy: (policy: UndoPolicy) => void;
+    /** The seed for the next game, or an empty string for a random one. */
+    seed: string;
+    /** Callback to change the seed for the next game. */
+    onSetSeed: (seed: string) => void;
     /** Callback to initiate the AI model download. */
     onDownload: () => void;
 };
@@ -54,19 +97,33 @@ function GameSetup({
     onStartDefault,
     onStartCustom,
     onStartWithCustomSet,
+    onResumeGame,
     aiStatus,
     aiStatusMessage,
     downloadProgress,
     hasDefaultChars,
     hasCustomSet,
+    hasSavedGame,
     isLoading,
+    loadingMessage,
     isReviewModeEnabled,
     onSetReviewMode,
+    isVotingEnabled,
+    onSetVoting,
+    difficulty,
+    onSetDifficulty,
+    assistMode,
+    onSetAssistMode,
+    undoPolicy,
+    onSetUndoPolicy,
+    seed,
+    onSetSeed,
     onDownload,
 }: GameSetupProps) {
     const isReady = aiStatus === AIStatus.READY;
     const defaultGameDisabled = !isReady || !hasDefaultChars || isLoading;
     const customGameDisabled = !isReady || isLoading;
+    const optionCount = 2 + (hasCustomSet ? 1 : 0) + (hasSavedGame ? 1 : 0);
 
     const [showComplete, setShowComplete] = useState(false);
     const prevAiStatus = useRef(aiStatus);
@@ -131,6 +188,14 @@ function GameSetup({
                     </div>
                 );
             case AIStatus.READY:
+                if (isLoading && loadingMessage) {
+                    return (
+                        <div className={styles.statusContainer} role="status">
+                            <SpinnerIcon className={styles.spinner} />
+                            <p className={styles.subtitle}>{loadingMessage}</p>
+                        </div>
+                    );
+                }
                 return !hasDefaultChars ? (
                     <div className={styles.statusContainer} role="status">
                         <SpinnerIcon className={styles.spinner} />
@@ -151,7 +216,16 @@ function GameSetup({
 
             {renderStatus()}
 
-            <div className={`${styles.optionsGrid} ${hasCustomSet ? styles.hasThree : ""}`}>
+            <div className={`${styles.optionsGrid} ${optionCount === 3 ? styles.hasThree : ""}`}>
+                {hasSavedGame && (
+                    <SetupOptionCard
+                        title="Resume Game"
+                        description="Pick up the game you were playing where you left off."
+                        icon={<ResumeIcon />}
+                        onClick={onResumeGame}
+                        disabled={customGameDisabled}
+                    />
+                )}
                 <SetupOptionCard
                     title="Play Default Game"
                     description="Jump right in with a random set of 5 characters."
@@ -179,6 +253,28 @@ function GameSetup({
 
             <div className={styles.settingsContainer}>
                 <h3 className={styles.settingsTitle}>Game Options</h3>
+                <div className={styles.difficultyGroup} role="radiogroup" aria-label="AI Difficulty">
+                    {Object.values(AIDifficulty).map((level) => (
+                        <label
+                            key={level}
+                            className={`${styles.difficultyOption} ${difficulty === level ? styles.difficultySelected : ""}`}
+                        >
+                            <input
+                                type="radio"
+                                name="ai-difficulty"
+                                className={styles.difficultyRadio}
+                                value={level}
+                                checked={difficulty === level}
+                                onChange={() => onSetDifficulty(level)}
+                                disabled={!isReady}
+                            />
+                            {builtInAIService.DIFFICULTY_PROFILES[level].label}
+                        </label>
+                    ))}
+                </div>
+                <p className={styles.settingDescription}>
+                    {builtInAIService.DIFFICULTY_PROFILES[difficulty].description}
+                </p>
                 <label className={styles.settingLabel}>
                     <input
                         type="checkbox"
@@ -193,9 +289,83 @@ function GameSetup({
                     See how the AI analyzes its board before you answer. This makes the game more transparent but adds
                     an extra step to the AI's turn.
                 </p>
+                <label className={styles.settingLabel}>
+                    <input
+                        type="checkbox"
+                        className={styles.settingCheckbox}
+                        checked={isVotingEnabled}
+                        onChange={(e) => onSetVoting(e.target.checked)}
+                        disabled={!isReady}
+                    />
+                    Double-check AI Analysis
+                </label>
+                <p className={styles.settingDescription}>
+                    The AI re-examines every character several times and decides by majority vote. Its verdicts are more
+                    reliable, and uncertain ones are highlighted during review, but each AI turn takes longer.
+                </p>
+                <div className={styles.difficultyGroup} role="radiogroup" aria-label="Elimination checks">
+                    {Object.values(PlayerAssistMode).map((mode) => (
+                        <label
+                            key={mode}
+                            className={`${styles.difficultyOption} ${assistMode === mode ? styles.difficultySelected : ""}`}
+                        >
+                            <input
+                                type="radio"
+                                name="assist-mode"
+                                className={styles.difficultyRadio}
+                                value={mode}
+                                checked={assistMode === mode}
+                                onChange={() => onSetAssistMode(mode)}
+                                disabled={!isReady}
+                            />
+                            {ASSIST_MODE_LABELS[mode]}
+                        </label>
+                    ))}
+                </div>
+                <p className={styles.settingDescription}>
+                    {assistMode === PlayerAssistMode.ASSIST
+                        ? "The AI checks your board after each answer and warns you before you end your turn if a card you flipped should stay or a card that should go is still up."
+                        : "No checks and no warnings: you are on your own when flipping cards."}
+                </p>
+                <div className={styles.difficultyGroup} role="radiogroup" aria-label="Undo">
+                    {Object.values(UndoPolicy).map((policy) => (
+                        <label
+                            key={policy}
+                            className={`${styles.difficultyOption} ${undoPolicy === policy ? styles.difficultySelected : ""}`}
+                        >
+                            <input
+                                type="radio"
+                                name="undo-policy"
+                                className={styles.difficultyRadio}
+                                value={policy}
+                                checked={undoPolicy === policy}
+                                onChange={() => onSetUndoPolicy(policy)}
+                                disabled={!isReady}
+                            />
+                            {UNDO_POLICY_LABELS[policy]}
+                        </label>
+                    ))}
+                </div>
+                <p className={styles.settingDescription}>{UNDO_POLICY_DESCRIPTIONS[undoPolicy]}</p>
+                <label className={styles.settingLabel}>
+                    Game Seed
+                    <input
+                        type="text"
+                        className={styles.seedInput}
+                        value={seed}
+                        onChange={(e) => onSetSeed(e.target.value)}
+                        placeholder="Random"
+                        spellCheck={false}
+                        disabled={!isReady}
+                    />
+                </label>
+                <p className={styles.settingDescription}>
+                    Leave empty for a random game. Enter the seed of an earlier game to play the same board with the
+                    same secret characters again. The seed applies to the next game only.
+                </p>
             </div>
         </div>
     );
 }
 
-export default GameSetup;
\ No newline at end of file
+export default GameSetup;
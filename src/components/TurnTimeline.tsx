@@ -0,0 +1,89 @@
+import { type AITurnRecord, type Character } from "../types";
+import styles from "./TurnTimeline.module.css";
+
+export type TurnTimelineProps = {
+    /** The AI's question turns so far, oldest first. */
+    history: AITurnRecord[];
+    /** The characters on the board, used to name the cards in each turn. */
+    characters: Character[];
+    /** The index of the turn being viewed, or `null` to show the board as it is now. */
+    selectedTurn: number | null;
+    /** Callback for when the player picks a turn to view, or `null` to go back to the current board. */
+    onSelectTurn: (turn: number | null) => void;
+};
+
+/**
+ * A timeline for stepping through the AI's past turns, showing what it asked, how the player answered and
+ * how it judged every card at the time.
+ */
+function TurnTimeline({ history, characters, selectedTurn, onSelectTurn }: TurnTimelineProps) {
+    if (history.length === 0) return null;
+
+    // The slider's last position stands for the current board.
+    const position = selectedTurn ?? history.length;
+    const record = selectedTurn !== null ? history[selectedTurn] : null;
+    const namesOf = (ids: string[]) =>
+        characters
+            .filter((c) => ids.includes(c.character_id))
+            .map((c) => c.name)
+            .join(", ");
+
+    const selectPosition = (next: number) => onSelectTurn(next >= history.length ? null : Math.max(0, next));
+
+    return (
+        <div className={styles.timeline}>
+            <div className={styles.controls}>
+                <button
+                    className={styles.stepButton}
+                    onClick={() => selectPosition(position - 1)}
+                    disabled={position === 0}
+                    aria-label="Previous turn"
+                >
+                    ‹
+                </button>
+                <input
+                    type="range"
+                    className={styles.slider}
+                    min={0}
+                    max={history.length}
+                    value={position}
+                    onChange={(e) => selectPosition(Number(e.target.value))}
+                    aria-label="AI turn"
+                    aria-valuetext={record ? `Turn ${position + 1}` : "Current board"}
+                />
+                <button
+                    className={styles.stepButton}
+                    onClick={() => selectPosition(position + 1)}
+                    disabled={position === history.length}
+                    aria-label="Next turn"
+                >
+                    ›
+                </button>
+                <span className={styles.position}>{record ? `Turn ${position + 1} of ${history.length}` : "Now"}</span>
+            </div>
+
+            {record && (
+                <div className={styles.details}>
+                    <p>
+                        <strong>{record.question}</strong> {record.answer}
+                    </p>
+                    <p>Eliminated: {namesOf(record.eliminatedIds) || "nobody"}</p>
+                    {record.restoredIds.length > 0 && <p>Put back: {namesOf(record.restoredIds)}</p>}
+                    <details>
+                        <summary>The AI's reasoning</summary>
+                        <ul className={styles.reasoningList}>
+                            {record.analysis.map((entry) => (
+                                <li key={entry.id}>
+                                    <strong>{entry.name}</strong> ({entry.has_feature ? "yes" : "no"}):{" "}
+                                    {entry.reasoning}
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default TurnTimeline;
@@ -11,3 +11,6 @@ export const DEFAULT_CHARACTERS: Character[] = [
     { character_id: "Roger", name: "Roger", image: "/ai-guess-who/images/generated/Roger.jpeg" },
     { character_id: "Tom", name: "Tom", image: "/ai-guess-who/images/generated/Tom.jpeg" },
 ];
+
+/** Voting agreement below this value marks an AI verdict as low-confidence in the review overlay. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.75;
@@ -0,0 +1,97 @@
+/**
+ * @file An event-sourced game engine: the state is the result of applying every accepted event, in order, to
+ * the initial state. It has no dependency on React, so it can drive tests, a simulator or a network transport.
+ */
+import { gameReducer, INITIAL_ENGINE_STATE } from "./reducer";
+import { type EngineState, type GameEvent } from "./types";
+
+export type GameEngine = {
+    getState: () => EngineState;
+    /** The events applied since the engine was created, oldest first. */
+    getEvents: () => GameEvent[];
+    /**
+     * Applies an event and notifies the listeners.
+     * @throws {InvalidTransitionError} If the event is not allowed in the current state; nothing changes then.
+     */
+    dispatch: (event: GameEvent) => void;
+    /**
+     * Replaces the game with the one produced by replaying events, e.g. from a saved game, and notifies the
+     * listeners.
+     * @throws {InvalidTransitionError} If the events do not form a valid game; nothing changes then.
+     */
+    load: (events: GameEvent[]) => void;
+    /**
+     * Takes back the latest events by replaying only the first ones, and notifies the listeners.
+     * @param eventCount The number of events to keep.
+     */
+    rewind: (eventCount: number) => void;
+    /** Checks whether an event would be accepted in the current state, without applying it. */
+    canDispatch: (event: GameEvent) => boolean;
+    /**
+     * Registers a listener that is called after every accepted event.
+     * @returns A function that removes the listener.
+     */
+    subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * Rebuilds a state by applying events to the initial state.
+ * @param events The events, oldest first.
+ * @throws {InvalidTransitionError} If the events do not form a valid game.
+ */
+export function replayEvents(events: GameEvent[]): EngineState {
+    return events.reduce(gameReducer, INITIAL_ENGINE_STATE);
+}
+
+/**
+ * Returns the events of the latest game, starting with its `GAME_STARTED` event.
+ * @param events The events, oldest first.
+ * @returns The events of the latest game, or an empty array if no game was started.
+ */
+export function getLatestGameEvents(events: GameEvent[]): GameEvent[] {
+    const start = events.map((event) => event.type).lastIndexOf("GAME_STARTED");
+    return start === -1 ? [] : events.slice(start);
+}
+
+/**
+ * Creates a game engine.
+ * @param events Events to replay first, e.g. from a saved game.
+ * @returns The engine.
+ */
+export function createGameEngine(events: GameEvent[] = []): GameEngine {
+    let state = replayEvents(events);
+    let log = [...events];
+    const listeners = new Set<() => void>();
+
+    return {
+        getState: () => state,
+        getEvents: () => log,
+        dispatch: (event) => {
+            state = gameReducer(state, event);
+            log = [...log, event];
+            listeners.forEach((listener) => listener());
+        },
+        load: (events) => {
+            state = replayEvents(events);
+            log = [...events];
+            listeners.forEach((listener) => listener());
+        },
+        rewind: (eventCount) => {
+            log = log.slice(0, eventCount);
+            state = replayEvents(log);
+            listeners.forEach((listener) => listener());
+        },
+        canDispatch: (event) => {
+            try {
+                gameReducer(state, event);
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
@@ -0,0 +1,9 @@
+/**
+ * The framework-independent game engine: the rules of the game as a reducer over typed events.
+ */
+export { createGameEngine, getLatestGameEvents, replayEvents } from "./engine";
+export { createSeed, createSeededRandom, pickBoard, pickSecrets, shuffle } from "./random";
+export { gameReducer, INITIAL_ENGINE_STATE, InvalidTransitionError, isGameInProgress } from "./reducer";
+export type { GameEngine } from "./engine";
+export type { FixedSecrets, SeededRandom } from "./random";
+export type { EngineState, GameEvent, Side } from "./types";
@@ -0,0 +1,116 @@
+/**
+ * @file Seedable randomness for setting up a game. The same seed always produces the same board and secrets, so
+ * a reported game can be replayed exactly.
+ */
+import { type Character } from "../types";
+
+/** A random number generator together with the seed it was created from. */
+export type SeededRandom = {
+    seed: string;
+    /** Returns the next number in [0, 1). */
+    next: () => number;
+};
+
+/** Secret characters requested up front, e.g. to reproduce a reported game. */
+export type FixedSecrets = {
+    playerSecretId?: string;
+    aiSecretId?: string;
+};
+
+const SEED_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const SEED_LENGTH = 8;
+
+/**
+ * Computes a 32-bit FNV-1a hash, used to turn a seed of any length into the generator's state.
+ */
+function hashSeed(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Creates a short, readable seed for a new game.
+ */
+export function createSeed(): string {
+    const values = crypto.getRandomValues(new Uint32Array(SEED_LENGTH));
+    return Array.from(values, (value) => SEED_ALPHABET[value % SEED_ALPHABET.length]).join("");
+}
+
+/**
+ * Creates a deterministic random number generator (mulberry32).
+ * @param seed Any string; the same seed always produces the same sequence.
+ */
+export function createSeededRandom(seed: string): SeededRandom {
+    let state = hashSeed(seed);
+    return {
+        seed,
+        next: () => {
+            state = (state + 0x6d2b79f5) | 0;
+            let t = Math.imul(state ^ (state >>> 15), 1 | state);
+            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        },
+    };
+}
+
+/**
+ * Shuffles an array using the Fisher-Yates algorithm.
+ * @param array The array to shuffle.
+ * @param random A source of random numbers in [0, 1).
+ * @returns A new shuffled array.
+ */
+export function shuffle<T>(array: T[], random: () => number): T[] {
+    const newArray = [...array];
+    for (let i = newArray.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+    }
+    return newArray;
+}
+
+/**
+ * Picks the characters for a board. Fixed secrets are always on it, so a reproduced game can use them.
+ * @param characters The characters to choose from.
+ * @param size The number of characters on the board.
+ * @param random A source of random numbers in [0, 1).
+ * @param secrets Secret characters that must be on the board.
+ */
+export function pickBoard(
+    characters: Character[],
+    size: number,
+    random: () => number,
+    secrets: FixedSecrets = {},
+): Character[] {
+    const requiredIds = new Set([secrets.playerSecretId, secrets.aiSecretId]);
+    const shuffled = shuffle(characters, random);
+    const required = shuffled.filter((c) => requiredIds.has(c.character_id));
+    const others = shuffled.filter((c) => !requiredIds.has(c.character_id));
+    return shuffle([...required, ...others].slice(0, size), random);
+}
+
+/**
+ * Picks the two secret characters. A fixed secret that is not on the board is ignored.
+ * @param characters The characters on the board; there must be at least two.
+ * @param random A source of random numbers in [0, 1).
+ * @param secrets Secret characters requested up front.
+ * @returns The ids of the player's and the AI's secret characters, which are always different.
+ */
+export function pickSecrets(
+    characters: Character[],
+    random: () => number,
+    secrets: FixedSecrets = {},
+): { playerSecretId: string; aiSecretId: string } {
+    const ids = characters.map((c) => c.character_id);
+    const pick = (fixedId: string | undefined, excludedId?: string) => {
+        if (fixedId && ids.includes(fixedId) && fixedId !== excludedId) return fixedId;
+        if (fixedId) console.warn(`Ignoring the requested secret character "${fixedId}".`);
+        const pool = ids.filter((id) => id !== excludedId);
+        return pool[Math.floor(random() * pool.length)];
+    };
+    const playerSecretId = pick(secrets.playerSecretId);
+    return { playerSecretId, aiSecretId: pick(secrets.aiSecretId, playerSecretId) };
+}
@@ -0,0 +1,221 @@
+/**
+ * @file The rules of the game as a pure reducer: every event either produces the next state or is rejected.
+ */
+import { GameState } from "../types";
+import { type EngineState, type GameEvent, type Side } from "./types";
+
+export const INITIAL_ENGINE_STATE: EngineState = {
+    phase: GameState.SETUP,
+    seed: null,
+    characters: [],
+    playerSecretId: null,
+    aiSecretId: null,
+    playerEliminatedIds: [],
+    aiRemainingIds: [],
+    pendingQuestion: null,
+    pendingAIGuessId: null,
+    round: 0,
+    winner: null,
+    winReason: "",
+};
+
+/** The phases in which a game is being played. */
+const IN_GAME_PHASES = new Set([
+    GameState.PLAYER_TURN_ASKING,
+    GameState.PLAYER_TURN_ELIMINATING,
+    GameState.AI_TURN,
+    GameState.PLAYER_REVIEWING_AI_ANALYSIS,
+    GameState.AI_TURN_WAITING_FOR_ANSWER,
+]);
+
+/**
+ * Checks whether a game is being played, i.e. it has started and is not over yet.
+ */
+export function isGameInProgress(phase: GameState): boolean {
+    return IN_GAME_PHASES.has(phase);
+}
+
+/**
+ * Thrown when an event is not allowed in the current state, e.g. ending the turn while it is the AI's turn.
+ */
+export class InvalidTransitionError extends Error {
+    readonly event: GameEvent;
+    readonly phase: GameState;
+
+    constructor(event: GameEvent, phase: GameState, detail?: string) {
+        super(`${event.type} is not allowed in phase ${GameState[phase]}${detail ? `: ${detail}` : ""}.`);
+        this.name = "InvalidTransitionError";
+        this.event = event;
+        this.phase = phase;
+    }
+}
+
+/**
+ * Returns the name of a character, for the win reason.
+ */
+function nameOf(state: EngineState, id: string | null): string {
+    return state.characters.find((c) => c.character_id === id)?.name ?? "an unknown character";
+}
+
+/**
+ * Ends the game.
+ */
+function endGame(state: EngineState, winner: Side, winReason: string): EngineState {
+    return { ...state, phase: GameState.GAME_OVER, pendingQuestion: null, pendingAIGuessId: null, winner, winReason };
+}
+
+/**
+ * Flips cards on one side's board.
+ */
+function flipCards(state: EngineState, side: Side, ids: string[], down: boolean): EngineState {
+    const change = new Set(ids);
+    if (side === "PLAYER") {
+        const eliminated = new Set(state.playerEliminatedIds);
+        change.forEach((id) => (down ? eliminated.add(id) : eliminated.delete(id)));
+        return {
+            ...state,
+            playerEliminatedIds: state.characters.map((c) => c.character_id).filter((id) => eliminated.has(id)),
+        };
+    }
+    const remaining = new Set(state.aiRemainingIds);
+    change.forEach((id) => (down ? remaining.delete(id) : remaining.add(id)));
+    return { ...state, aiRemainingIds: state.characters.map((c) => c.character_id).filter((id) => remaining.has(id)) };
+}
+
+/**
+ * Applies an event to the game state.
+ * @param state The current state.
+ * @param event The event to apply.
+ * @returns The next state.
+ * @throws {InvalidTransitionError} If the event is not allowed in the current state.
+ */
+export function gameReducer(state: EngineState, event: GameEvent): EngineState {
+    const reject = (detail?: string): never => {
+        throw new InvalidTransitionError(event, state.phase, detail);
+    };
+    const { phase } = state;
+
+    switch (event.type) {
+        case "CUSTOM_SETUP_OPENED":
+            if (phase !== GameState.SETUP) reject();
+            return { ...state, phase: GameState.CUSTOM_SETUP };
+
+        case "SETUP_OPENED":
+            if (phase !== GameState.SETUP && phase !== GameState.CUSTOM_SETUP) reject();
+            return { ...state, phase: GameState.SETUP };
+
+        case "GAME_STARTED": {
+            if (phase !== GameState.SETUP && phase !== GameState.CUSTOM_SETUP) reject();
+            const ids = new Set(event.characters.map((c) => c.character_id));
+            if (!ids.has(event.playerSecretId) || !ids.has(event.aiSecretId)) reject("unknown secret character");
+            if (event.playerSecretId === event.aiSecretId) reject("both players drew the same character");
+            return {
+                ...INITIAL_ENGINE_STATE,
+                phase: GameState.PLAYER_TURN_ASKING,
+                seed: event.seed,
+                characters: event.characters,
+                playerSecretId: event.playerSecretId,
+                aiSecretId: event.aiSecretId,
+                aiRemainingIds: event.characters.map((c) => c.character_id),
+            };
+        }
+
+        case "QUESTION_ASKED":
+            if (state.pendingQuestion) reject("a question is already waiting for an answer");
+            if (event.asker === "PLAYER") {
+                if (phase !== GameState.PLAYER_TURN_ASKING) reject();
+                return { ...state, pendingQuestion: { asker: "PLAYER", question: event.question } };
+            }
+            if (phase !== GameState.AI_TURN) reject();
+            return {
+                ...state,
+                phase: event.needsReview
+                    ? GameState.PLAYER_REVIEWING_AI_ANALYSIS
+                    : GameState.AI_TURN_WAITING_FOR_ANSWER,
+                pendingQuestion: { asker: "AI", question: event.question },
+            };
+
+        case "ANALYSIS_REVIEWED":
+            if (phase !== GameState.PLAYER_REVIEWING_AI_ANALYSIS) reject();
+            return { ...state, phase: GameState.AI_TURN_WAITING_FOR_ANSWER };
+
+        case "QUESTION_ANSWERED":
+            if (phase === GameState.PLAYER_TURN_ASKING && state.pendingQuestion?.asker === "PLAYER") {
+                return { ...state, phase: GameState.PLAYER_TURN_ELIMINATING, pendingQuestion: null };
+            }
+            if (phase !== GameState.AI_TURN_WAITING_FOR_ANSWER) reject();
+            if (state.pendingAIGuessId) {
+                const isCorrectGuess = state.pendingAIGuessId === state.playerSecretId;
+                const playerName = nameOf(state, state.playerSecretId);
+                if (isCorrectGuess && event.answer === "yes") {
+                    return endGame(state, "AI", `It correctly guessed your character was ${playerName}.`);
+                }
+                if (!isCorrectGuess && event.answer === "no") {
+                    return endGame(
+                        state,
+                        "PLAYER",
+                        `The AI guessed ${nameOf(state, state.pendingAIGuessId)} incorrectly! You win!`,
+                    );
+                }
+                return endGame(
+                    state,
+                    "AI",
+                    `There was a mismatch in the final guess. Your card was ${playerName}. The AI wins.`,
+                );
+            }
+            if (!state.pendingQuestion || state.pendingQuestion.answer) reject("no question is waiting for an answer");
+            return { ...state, pendingQuestion: { ...state.pendingQuestion!, answer: event.answer } };
+
+        case "QUESTION_REJECTED":
+            if (phase !== GameState.PLAYER_TURN_ASKING || state.pendingQuestion?.asker !== "PLAYER") reject();
+            return { ...state, pendingQuestion: null };
+
+        case "CARDS_FLIPPED":
+            if (!IN_GAME_PHASES.has(phase)) reject();
+            if (event.side === "PLAYER") {
+                // Cards can be put back up at any time, e.g. after a disputed answer is overturned.
+                if (event.down && phase !== GameState.PLAYER_TURN_ELIMINATING)
+                    reject("the player can only flip cards down after an answer");
+            } else if (phase !== GameState.AI_TURN_WAITING_FOR_ANSWER || !state.pendingQuestion?.answer) {
+                reject("the AI can only flip cards after its question was answered");
+            }
+            return flipCards(state, event.side, event.ids, event.down);
+
+        case "GUESS_MADE":
+            if (!state.characters.some((c) => c.character_id === event.characterId)) reject("unknown character");
+            if (event.guesser === "PLAYER") {
+                if (phase !== GameState.PLAYER_TURN_ASKING || state.pendingQuestion) reject();
+                const aiName = nameOf(state, state.aiSecretId);
+                return event.characterId === state.aiSecretId
+                    ? endGame(state, "PLAYER", `You correctly guessed the character was ${aiName}.`)
+                    : endGame(state, "AI", `You guessed incorrectly. The secret character was ${aiName}.`);
+            }
+            if (phase !== GameState.AI_TURN) reject();
+            return {
+                ...state,
+                phase: GameState.AI_TURN_WAITING_FOR_ANSWER,
+                pendingQuestion: null,
+                pendingAIGuessId: event.characterId,
+            };
+
+        case "TURN_ENDED":
+            if (phase === GameState.PLAYER_TURN_ELIMINATING) {
+                return { ...state, phase: GameState.AI_TURN };
+            }
+            // The AI gives up its turn, e.g. because it could not come up with a question.
+            if (phase === GameState.AI_TURN) {
+                return { ...state, phase: GameState.PLAYER_TURN_ASKING, round: state.round + 1 };
+            }
+            if (phase === GameState.AI_TURN_WAITING_FOR_ANSWER && state.pendingQuestion?.answer) {
+                return { ...state, phase: GameState.PLAYER_TURN_ASKING, pendingQuestion: null, round: state.round + 1 };
+            }
+            return reject();
+
+        case "GAME_ENDED":
+            if (!IN_GAME_PHASES.has(phase)) reject();
+            return endGame(state, event.winner, event.reason);
+
+        case "GAME_RESET":
+            return INITIAL_ENGINE_STATE;
+    }
+}
@@ -0,0 +1,51 @@
+import { type Character, type GameState, type GameWinner } from "../types";
+
+/** One of the two players. */
+export type Side = "PLAYER" | "AI";
+
+/**
+ * The rules-relevant state of a game. It holds no UI or AI model state, so it can be serialized and rebuilt by
+ * replaying the events that produced it.
+ */
+export type EngineState = {
+    phase: GameState;
+    /** The seed the board and secrets were drawn with, so the game can be reproduced. */
+    seed: string | null;
+    characters: Character[];
+    playerSecretId: string | null;
+    aiSecretId: string | null;
+    /** The cards the player has flipped down on their board. */
+    playerEliminatedIds: string[];
+    /** The cards still up on the AI's board. */
+    aiRemainingIds: string[];
+    /** The question waiting to be answered, who asked it and, once given, the answer. */
+    pendingQuestion: { asker: Side; question: string; answer?: "yes" | "no" } | null;
+    /** The character the AI guessed, while the player has not answered yet. */
+    pendingAIGuessId: string | null;
+    /** The number of completed rounds, i.e. how often the AI's turn has ended. */
+    round: number;
+    winner: GameWinner;
+    winReason: string;
+};
+
+/**
+ * Everything that can happen in a game. Each event is either applied by the reducer or rejected as an invalid
+ * transition.
+ */
+export type GameEvent =
+    | { type: "CUSTOM_SETUP_OPENED" }
+    | { type: "SETUP_OPENED" }
+    | { type: "GAME_STARTED"; seed: string; characters: Character[]; playerSecretId: string; aiSecretId: string }
+    /** `needsReview` makes the player review the AI's analysis before answering. */
+    | { type: "QUESTION_ASKED"; asker: Side; question: string; needsReview?: boolean }
+    | { type: "ANALYSIS_REVIEWED" }
+    /** Answers the pending question, or the AI's pending guess. */
+    | { type: "QUESTION_ANSWERED"; answer: "yes" | "no" }
+    /** The player's question could not be answered with yes or no, so they keep their turn. */
+    | { type: "QUESTION_REJECTED" }
+    | { type: "CARDS_FLIPPED"; side: Side; ids: string[]; down: boolean }
+    | { type: "GUESS_MADE"; guesser: Side; characterId: string }
+    | { type: "TURN_ENDED" }
+    /** Ends the game for a reason outside the normal rules, e.g. the AI ran out of candidates. */
+    | { type: "GAME_ENDED"; winner: Side; reason: string }
+    | { type: "GAME_RESET" };
@@ -1,19 +1,68 @@
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { type GameEvent } from "../engine";
 import * as builtInAIService from "../services/builtInAIService.ts";
-import { GameState, type Character, type EliminationAnalysisResult, type Message } from "../types";
+import * as dbService from "../services/dbService";
+import {
+    GameState,
+    type AIDifficulty,
+    type AIFact,
+    type AITurnRecord,
+    type BoardAttributes,
+    type Character,
+    type CharacterBeliefs,
+    type EliminationAnalysisResult,
+    type FeatureReliability,
+    type Message,
+    type SavedAIState,
+} from "../types";
+import { type AITurnContext, useAITurnScheduler } from "./useAITurnScheduler";
 
-const FINAL_GUESS_REGEX = /^(?:is it|is the person|is the character|is your? character)\s+(.*?)\??$/i;
+const MAX_AI_RETRIES = 3;
+
+/**
+ * What the game looked like right before the player answered the AI's question, so the answer can be taken back.
+ */
+type AnswerUndo = {
+    /** The number of engine events and chat messages before the answer. */
+    eventCount: number;
+    messageCount: number;
+    facts: AIFact[];
+    beliefs: CharacterBeliefs;
+    turnHistory: AITurnRecord[];
+    /** The number of engine events once the answer was applied. Any later event makes the answer final. */
+    eventCountAfter: number;
+};
 
 type UseAIActionsProps = {
     gameState: GameState;
     messages: Message[];
     playerSecret: Character | null;
+    activeCharacters: Character[];
+    boardAttributes: BoardAttributes;
+    /** The number of characters the player has not eliminated yet, used to judge early guesses. */
+    playerRemainingCount: number;
     isReviewModeEnabled: boolean;
+    isVotingEnabled: boolean;
+    difficulty: AIDifficulty;
+    /** How often the player corrected the AI per feature type, used to steer the planner. */
+    reliability: FeatureReliability;
+    /** Stores the review statistics after the player reviewed an analysis. */
+    onReliabilityChange: (reliability: FeatureReliability) => void;
+    /** The game's seeded source of random numbers in [0, 1). */
+    random: () => number;
     setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
     addMessage: (message: Message) => void;
-    setGameState: React.Dispatch<React.SetStateAction<GameState>>;
-    setWinner: React.Dispatch<React.SetStateAction<"PLAYER" | "AI" | null>>;
-    setWinReason: React.Dispatch<React.SetStateAction<string>>;
+    /** Removes the latest chat messages, keeping the given number. */
+    truncateMessages: (count: number) => void;
+    /** Whether the player may take back their last answer, as set by the undo policy. */
+    isUndoAllowed: boolean;
+    /** The cards still up on the AI's board, as tracked by the game engine. */
+    aiRemainingIds: string[];
+    /** The character the AI guessed on its last turn, or `null` if it asked a question. */
+    pendingAIGuessId: string | null;
+    dispatch: (event: GameEvent) => boolean;
+    getEventCount: () => number;
+    rewind: (eventCount: number) => void;
 };
 
 /**
@@ -23,207 +72,544 @@ export const useAIActions = ({
     gameState,
     messages,
     playerSecret,
+    activeCharacters,
+    boardAttributes,
+    playerRemainingCount,
     isReviewModeEnabled,
+    isVotingEnabled,
+    difficulty,
+    reliability,
+    onReliabilityChange,
+    random,
     setIsLoading,
     addMessage,
-    setGameState,
-    setWinner,
-    setWinReason,
+    truncateMessages,
+    isUndoAllowed,
+    aiRemainingIds,
+    pendingAIGuessId,
+    dispatch,
+    getEventCount,
+    rewind,
 }: UseAIActionsProps) => {
-    const [aiRemainingChars, setAiRemainingChars] = useState<Character[]>([]);
+    const aiRemainingChars = useMemo(() => {
+        const remaining = new Set(aiRemainingIds);
+        return activeCharacters.filter((c) => remaining.has(c.character_id));
+    }, [activeCharacters, aiRemainingIds]);
+    const [aiBeliefs, setAiBeliefs] = useState<CharacterBeliefs>({});
+    const [aiFacts, setAiFacts] = useState<AIFact[]>([]);
+    const [aiTurnHistory, setAiTurnHistory] = useState<AITurnRecord[]>([]);
+    /** An answer held back because it does not seem to match the player's card. */
+    const [answerWarning, setAnswerWarning] = useState<{ answer: "Yes" | "No"; text: string } | null>(null);
     const [lastAIQuestion, setLastAIQuestion] = useState<string>("");
     const [lastAIAnalysis, setLastAIAnalysis] = useState<EliminationAnalysisResult[]>([]);
-    const [isAIFinalGuess, setIsAIFinalGuess] = useState(false);
+    /** The planned feature behind the AI's last question, or `null` if the model chose the question itself. */
+    const [lastAIFeatureKey, setLastAIFeatureKey] = useState<string | null>(null);
+    /** The state before the player's last answer to a question, while that answer can still be taken back. */
+    const [answerUndo, setAnswerUndo] = useState<AnswerUndo | null>(null);
+    const { turnStatus: aiTurnStatus, scheduleTurn, cancelTurn } = useAITurnScheduler();
+    const aiTurnNumberRef = useRef(0);
+    const prevGameStateRef = useRef(gameState);
+    const askedFeatureKeysRef = useRef(new Set<string>());
+    const backtrackControllerRef = useRef<AbortController | null>(null);
+    /** The AI state of a saved game, applied once its board is in place. */
+    const pendingRestoreRef = useRef<SavedAIState | null>(null);
+    /** When the AI's last question was asked and how long it took, recorded with the answer for the transcript. */
+    const lastAIQuestionTimingRef = useRef<{ askedAt: number; thinkingMs: number } | null>(null);
 
-    // Effect to handle the AI's turn logic
+    // Every new board starts from a uniform prior, no facts and no history, unless a saved game is resumed.
     useEffect(() => {
-        const handleAITurn = async () => {
-            if (gameState !== GameState.AI_TURN) return;
+        const restored = pendingRestoreRef.current;
+        pendingRestoreRef.current = null;
+        setAiBeliefs(restored?.beliefs ?? builtInAIService.createUniformBeliefs(activeCharacters));
+        setAiFacts(restored?.facts ?? []);
+        setAiTurnHistory(restored?.turnHistory ?? []);
+        setAnswerUndo(null);
+    }, [activeCharacters]);
+
+    /**
+     * Returns everything needed to pick up the AI's side of the game after a reload.
+     */
+    const getSavedState = useCallback(
+        (): SavedAIState => ({
+            facts: aiFacts,
+            beliefs: aiBeliefs,
+            turnHistory: aiTurnHistory,
+            lastQuestion: lastAIQuestion,
+            lastAnalysis: lastAIAnalysis,
+            lastFeatureKey: lastAIFeatureKey,
+        }),
+        [aiFacts, aiBeliefs, aiTurnHistory, lastAIQuestion, lastAIAnalysis, lastAIFeatureKey],
+    );
+
+    /**
+     * Restores the AI's side of a saved game. Must be called before the saved board is put in place.
+     * @param saved The saved AI state.
+     */
+    const restoreAIState = useCallback((saved: SavedAIState) => {
+        pendingRestoreRef.current = saved;
+        lastAIQuestionTimingRef.current = null;
+        setLastAIQuestion(saved.lastQuestion);
+        setLastAIAnalysis(saved.lastAnalysis);
+        setLastAIFeatureKey(saved.lastFeatureKey);
+        const askedKeys = saved.turnHistory.map((turn) => turn.featureKey);
+        askedFeatureKeysRef.current = new Set(
+            [...askedKeys, saved.lastFeatureKey].filter((key): key is string => key !== null),
+        );
+    }, []);
+
+    /**
+     * Aborts any in-flight AI request so its result can no longer change the game.
+     */
+    const cancelAIRequests = useCallback(() => {
+        cancelTurn();
+        backtrackControllerRef.current?.abort();
+        backtrackControllerRef.current = null;
+    }, [cancelTurn]);
+
+    /**
+     * Forgets which planned features the AI has already asked about, for a new game.
+     */
+    const resetAITurnState = useCallback(() => {
+        askedFeatureKeysRef.current = new Set();
+    }, []);
+
+    /**
+     * Runs a single AI turn: picks a question (with retries) and moves the game to the next state.
+     * Every state change is guarded by `isCurrent` so a cancelled or superseded turn cannot leak through.
+     * @returns True if the AI produced a question or a guess.
+     */
+    const runAITurn = useCallback(
+        async ({ signal, isCurrent, reportAttempt }: AITurnContext): Promise<boolean> => {
+            const startedAt = Date.now();
             setIsLoading(true);
-            setIsAIFinalGuess(false);
-
-            if (aiRemainingChars.length === 1) {
-                const guess = `Is your character ${aiRemainingChars[0].name}?`;
-                setLastAIQuestion(guess);
-                setIsAIFinalGuess(true);
-                addMessage({ sender: "AI", text: guess });
-                setGameState(GameState.AI_TURN_WAITING_FOR_ANSWER);
-                setIsLoading(false);
-                return;
-            }
 
             if (aiRemainingChars.length === 0) {
-                setWinner("PLAYER");
-                setWinReason("The AI ran out of characters to guess from!");
-                setGameState(GameState.GAME_OVER);
+                dispatch({
+                    type: "GAME_ENDED",
+                    winner: "PLAYER",
+                    reason: "The AI ran out of characters to guess from!",
+                });
                 setIsLoading(false);
-                return;
+                return false;
             }
 
-            const MAX_AI_RETRIES = 3;
             let retryReason: string | undefined = undefined;
             let lastFailedQuestion: string | undefined = undefined;
+            // Planned features whose questions or verdicts did not hold up this turn.
+            const rejectedFeatureKeys = new Set<string>();
 
             for (let attempt = 1; attempt <= MAX_AI_RETRIES; attempt++) {
+                reportAttempt(attempt, MAX_AI_RETRIES);
                 try {
-                    const { question, analysis } = await builtInAIService.getAIQuestionAndAnalysis(
-                        aiRemainingChars,
+                    const action = await builtInAIService.getAITurnAction({
+                        candidates: aiRemainingChars,
+                        beliefs: aiBeliefs,
                         messages,
+                        attributes: boardAttributes,
+                        difficulty,
+                        isVotingEnabled,
+                        playerRemainingCount,
+                        excludedFeatureKeys: [...askedFeatureKeysRef.current, ...rejectedFeatureKeys],
+                        reliability,
+                        random,
                         retryReason,
                         lastFailedQuestion,
-                    );
+                        signal,
+                    });
 
-                    const positiveFeatures = analysis.filter((res) => res.has_feature).length;
-                    if (positiveFeatures === 0 || positiveFeatures === analysis.length) {
-                        retryReason =
-                            "The last question you asked was invalid because it did not eliminate any characters. You must ask a question that splits the remaining characters.";
-                        lastFailedQuestion = question;
-                        throw new Error("AI generated a non-discriminatory question.");
+                    // The turn was cancelled (e.g. the game was reset) while the AI was thinking.
+                    if (!isCurrent()) return false;
+
+                    if (action.kind === "guess") {
+                        const guessed = aiRemainingChars.find((c) => c.character_id === action.characterId)!;
+                        const guess = `Is your character ${guessed.name}?`;
+                        setLastAIQuestion(guess);
+                        addMessage({ sender: "AI", text: guess });
+                        dispatch({ type: "GUESS_MADE", guesser: "AI", characterId: guessed.character_id });
+                        setIsLoading(false);
+                        return true;
                     }
 
+                    const { question, analysis, plan } = action;
+                    if (plan) askedFeatureKeysRef.current.add(plan.feature.key);
                     setLastAIQuestion(question);
                     setLastAIAnalysis(analysis);
+                    setLastAIFeatureKey(plan?.feature.key ?? null);
+                    const askedAt = Date.now();
+                    lastAIQuestionTimingRef.current = { askedAt, thinkingMs: askedAt - startedAt };
 
                     addMessage({ sender: "AI", text: question });
                     if (isReviewModeEnabled) {
+                        if (plan) addMessage({ sender: "SYSTEM", text: builtInAIService.describePlan(plan) });
                         addMessage({
                             sender: "SYSTEM",
-                            text: "Here is how the AI analyzed the remaining characters. Review its work, then click 'Continue' to provide your answer.",
+                            text: "Here is how the AI analyzed the remaining characters. Click a card on the AI's board to correct a wrong verdict, then click 'Continue' to provide your answer.",
                         });
-                        setGameState(GameState.PLAYER_REVIEWING_AI_ANALYSIS);
                     } else {
                         addMessage({ sender: "SYSTEM", text: "It's your turn to answer." });
-                        setGameState(GameState.AI_TURN_WAITING_FOR_ANSWER);
                     }
+                    dispatch({ type: "QUESTION_ASKED", asker: "AI", question, needsReview: isReviewModeEnabled });
 
                     setIsLoading(false);
-                    return;
+                    return true;
                 } catch (error) {
+                    if (!isCurrent() || builtInAIService.isAbortError(error)) return false;
                     console.warn(`AI question generation attempt ${attempt} failed:`, error);
-                    if (error instanceof Error && error.message !== "AI generated a non-discriminatory question.") {
+                    if (error instanceof builtInAIService.NonDiscriminatoryQuestionError) {
+                        if (error.featureKey) rejectedFeatureKeys.add(error.featureKey);
+                        retryReason =
+                            "The last question you asked was invalid because it did not eliminate any characters. You must ask a question that splits the remaining characters.";
+                        lastFailedQuestion = error.question;
+                    } else if (error instanceof builtInAIService.AIResponseValidationError) {
+                        if (error.featureKey) rejectedFeatureKeys.add(error.featureKey);
+                        retryReason = `Your last response was rejected. ${error.message}`;
+                        lastFailedQuestion = error.question || undefined;
+                    } else if (error instanceof Error) {
                         retryReason = `The last attempt failed with an error: ${error.message}. Please try generating a completely different question.`;
                     }
-                    if (attempt === MAX_AI_RETRIES) {
-                        console.error("AI failed to generate a valid question after multiple retries.");
-                        addMessage({ sender: "SYSTEM", text: "The AI is having trouble thinking. Your turn!" });
-                        setGameState(GameState.PLAYER_TURN_ASKING);
-                        setIsLoading(false);
-                        return;
-                    }
                 }
             }
-        };
-        handleAITurn();
-    }, [
-        gameState,
-        aiRemainingChars,
-        messages,
-        isReviewModeEnabled,
-        setIsLoading,
-        addMessage,
-        setGameState,
-        setWinner,
-        setWinReason,
-    ]);
 
+            console.error("AI failed to generate a valid question after multiple retries.");
+            addMessage({ sender: "SYSTEM", text: "The AI is having trouble thinking. Your turn!" });
+            dispatch({ type: "TURN_ENDED" });
+            setIsLoading(false);
+            return false;
+        },
+        [
+            aiRemainingChars,
+            aiBeliefs,
+            messages,
+            boardAttributes,
+            playerRemainingCount,
+            isReviewModeEnabled,
+            isVotingEnabled,
+            difficulty,
+            reliability,
+            random,
+            setIsLoading,
+            addMessage,
+            dispatch,
+        ],
+    );
+
+    // Start exactly one AI request each time the game enters the AI's turn. The turn number only advances on
+    // the transition into `AI_TURN`, so re-renders during the turn (e.g. new messages) cannot schedule a
+    // second request.
+    useEffect(() => {
+        if (gameState === GameState.AI_TURN && prevGameStateRef.current !== GameState.AI_TURN) {
+            aiTurnNumberRef.current += 1;
+        }
+        prevGameStateRef.current = gameState;
+
+        if (gameState === GameState.AI_TURN) {
+            scheduleTurn(aiTurnNumberRef.current, runAITurn);
+        }
+    }, [gameState, scheduleTurn, runAITurn]);
+
+    /**
+     * Flips the AI's verdict for one character while the player reviews the analysis. Flipping it back undoes
+     * the correction.
+     * @param id The id of the character whose verdict is corrected.
+     */
+    const handleToggleAnalysisVerdict = useCallback((id: string) => {
+        setLastAIAnalysis((prev) =>
+            prev.map((entry) =>
+                entry.id === id ? { ...entry, has_feature: !entry.has_feature, corrected: !entry.corrected } : entry,
+            ),
+        );
+    }, []);
+
+    /**
+     * Accepts the reviewed analysis. Corrections are logged and counted against the question's feature type, so
+     * the planner can steer away from features the model often gets wrong.
+     */
     const handleConfirmAIAnalysis = useCallback(() => {
-        setGameState(GameState.AI_TURN_WAITING_FOR_ANSWER);
-    }, [setGameState]);
+        const corrected = lastAIAnalysis.filter((entry) => entry.corrected);
+        const featureType = builtInAIService.getFeatureType(lastAIQuestion, lastAIFeatureKey);
 
-    const handlePlayerAnswer = useCallback(
+        const nextReliability = builtInAIService.recordReview(
+            reliability,
+            featureType,
+            lastAIAnalysis.length,
+            corrected.length,
+        );
+        onReliabilityChange(nextReliability);
+
+        if (corrected.length > 0) {
+            const correctedAt = Date.now();
+            dbService
+                .saveAnalysisCorrections(
+                    corrected.map((entry) => ({
+                        question: lastAIQuestion,
+                        featureType,
+                        characterId: entry.id,
+                        aiVerdict: !entry.has_feature,
+                        correctedAt,
+                    })),
+                )
+                .catch((error) => console.warn("Could not record analysis corrections:", error));
+
+            // The player's verdict replaces the AI's, so the AI's agreement no longer applies.
+            setLastAIAnalysis((prev) =>
+                prev.map((entry) =>
+                    entry.corrected
+                        ? { ...entry, confidence: undefined, reasoning: "Corrected by the player during review." }
+                        : entry,
+                ),
+            );
+            addMessage({
+                sender: "SYSTEM",
+                text: `You corrected the AI on ${corrected.map((entry) => entry.name).join(", ")}. It will use your verdicts and remember that it misjudged a "${featureType.replace(/_/g, " ")}" question.`,
+            });
+        }
+
+        dispatch({ type: "ANALYSIS_REVIEWED" });
+    }, [lastAIAnalysis, lastAIQuestion, lastAIFeatureKey, reliability, onReliabilityChange, addMessage, dispatch]);
+
+    /**
+     * Applies the player's answer to the AI's question or guess.
+     * @param answer The player's answer.
+     */
+    const applyPlayerAnswer = useCallback(
         async (answer: "Yes" | "No") => {
             if (!lastAIQuestion || !playerSecret) return;
+            const eventCount = getEventCount();
+            const messageCount = messages.length;
+            const answeredAt = Date.now();
             setIsLoading(true);
             addMessage({ sender: "PLAYER", text: answer });
 
-            if (isAIFinalGuess) {
-                const guessMatch = lastAIQuestion.trim().match(FINAL_GUESS_REGEX);
-                const guessedName = guessMatch ? guessMatch[1].trim() : "";
-                if (guessedName) {
-                    const isCorrectGuess = guessedName.toLowerCase() === playerSecret.name.toLowerCase();
-                    if (isCorrectGuess && answer === "Yes") {
-                        setWinner("AI");
-                        setWinReason(`It correctly guessed your character was ${playerSecret?.name}.`);
-                    } else if (!isCorrectGuess && answer === "No") {
-                        setWinner("PLAYER");
-                        setWinReason(`The AI guessed ${guessedName} incorrectly! You win!`);
-                    } else {
-                        setWinner("AI");
-                        setWinReason(
-                            `There was a mismatch in the final guess. Your card was ${playerSecret?.name}. The AI wins.`,
-                        );
-                    }
-                    setGameState(GameState.GAME_OVER);
-                    setIsLoading(false);
-                    return;
-                }
+            // The engine decides the outcome of a guess; an answer to a question is applied below.
+            const isGuess = !!pendingAIGuessId;
+            if (!dispatch({ type: "QUESTION_ANSWERED", answer: answer === "Yes" ? "yes" : "no" }) || isGuess) {
+                setIsLoading(false);
+                return;
             }
 
             await new Promise((resolve) => setTimeout(resolve, 500));
-            const eliminatedIds = new Set<string>();
-            if (answer === "Yes") {
-                lastAIAnalysis.forEach((char) => {
-                    if (!char.has_feature) eliminatedIds.add(char.id);
-                });
-            } else {
-                lastAIAnalysis.forEach((char) => {
-                    if (char.has_feature) eliminatedIds.add(char.id);
-                });
-            }
 
-            if (eliminatedIds.size === aiRemainingChars.length && aiRemainingChars.length > 0) {
-                console.warn("AI logic would have eliminated all characters. Preventing this action.");
+            // Weaker difficulties occasionally misread a verdict and knock down a card they should have kept.
+            const survivorIds = lastAIAnalysis
+                .filter((entry) => entry.has_feature === (answer === "Yes"))
+                .map((entry) => entry.id);
+            const misreadId = builtInAIService.pickMisElimination(
+                survivorIds,
+                builtInAIService.DIFFICULTY_PROFILES[difficulty],
+                random,
+            );
+            const analysis = misreadId
+                ? lastAIAnalysis.map((entry) =>
+                      entry.id === misreadId
+                          ? { ...entry, has_feature: !entry.has_feature, confidence: undefined }
+                          : entry,
+                  )
+                : lastAIAnalysis;
+
+            // Update the beliefs instead of removing characters outright, so a wrong verdict can be outweighed later.
+            let newFacts: AIFact[] = [...aiFacts, { question: lastAIQuestion, answer, analysis }];
+            let newBeliefs = builtInAIService.updateBeliefs(aiBeliefs, analysis, answer);
+            let newRemainingChars = builtInAIService.getPlausibleCandidates(activeCharacters, newBeliefs);
+
+            // If no candidate agrees with every answer, some verdict was wrong: look at the board again.
+            if (builtInAIService.hasContradiction(newRemainingChars, newFacts)) {
                 addMessage({
                     sender: "SYSTEM",
-                    text: "The AI got confused and almost eliminated everyone! No one was eliminated.",
+                    text: "That answer contradicts what the AI thought it knew. It is taking another look at its board...",
                 });
-            } else {
-                const eliminatedNames = aiRemainingChars
-                    .filter((c) => eliminatedIds.has(c.character_id))
-                    .map((c) => c.name)
-                    .join(", ");
-                if (eliminatedNames) {
-                    addMessage({ sender: "SYSTEM", text: `AI eliminated: ${eliminatedNames}.` });
-                } else {
-                    addMessage({ sender: "SYSTEM", text: `AI did not eliminate anyone based on that answer.` });
+                const controller = new AbortController();
+                backtrackControllerRef.current = controller;
+                try {
+                    const result = await builtInAIService.backtrack(activeCharacters, newFacts, controller.signal);
+                    newFacts = result.facts;
+                    newBeliefs = result.beliefs;
+                    newRemainingChars = result.candidates;
+                    if (result.corrections.length > 0) {
+                        const corrections = result.corrections
+                            .map((c) => `${c.characterName} ${c.hasFeature ? "does" : "does not"} fit "${c.question}"`)
+                            .join("; ");
+                        addMessage({
+                            sender: "SYSTEM",
+                            text: `The AI corrected its earlier analysis: ${corrections}.`,
+                        });
+                    }
+                } catch (error) {
+                    // The game was reset while the AI was re-examining its board.
+                    if (controller.signal.aborted) return;
+                    console.warn("Backtracking failed:", error);
+                } finally {
+                    if (backtrackControllerRef.current === controller) backtrackControllerRef.current = null;
                 }
+            }
+            const remainingIds = new Set(newRemainingChars.map((c) => c.character_id));
+            const previousIds = new Set(aiRemainingChars.map((c) => c.character_id));
 
-                const newRemainingChars = aiRemainingChars.filter((c) => !eliminatedIds.has(c.character_id));
-                setAiRemainingChars(newRemainingChars);
-
-                if (newRemainingChars.length === 0) {
-                    setWinner("PLAYER");
-                    setWinReason(`The AI eliminated all its characters by mistake! You win!`);
-                    setGameState(GameState.GAME_OVER);
-                    setIsLoading(false);
-                    return;
-                }
+            const eliminated = aiRemainingChars.filter((c) => !remainingIds.has(c.character_id));
+            const restored = newRemainingChars.filter((c) => !previousIds.has(c.character_id));
+            const eliminatedNames = eliminated.map((c) => c.name).join(", ");
+            const restoredNames = restored.map((c) => c.name).join(", ");
+            if (eliminatedNames) {
+                addMessage({ sender: "SYSTEM", text: `AI eliminated: ${eliminatedNames}.` });
+            } else {
+                addMessage({ sender: "SYSTEM", text: `AI did not eliminate anyone based on that answer.` });
+            }
+            if (restoredNames) {
+                addMessage({
+                    sender: "SYSTEM",
+                    text: `The AI reconsidered earlier answers and put ${restoredNames} back on its board.`,
+                });
             }
 
-            setGameState(GameState.PLAYER_TURN_ASKING);
+            setAiFacts(newFacts);
+            setAiBeliefs(newBeliefs);
+            dispatch({ type: "CARDS_FLIPPED", side: "AI", ids: eliminated.map((c) => c.character_id), down: true });
+            dispatch({ type: "CARDS_FLIPPED", side: "AI", ids: restored.map((c) => c.character_id), down: false });
+            setAiTurnHistory((prev) => [
+                ...prev,
+                {
+                    question: lastAIQuestion,
+                    featureKey: lastAIFeatureKey,
+                    answer,
+                    analysis,
+                    eliminatedIds: eliminated.map((c) => c.character_id),
+                    restoredIds: restored.map((c) => c.character_id),
+                    remainingIds: [...remainingIds],
+                    ...lastAIQuestionTimingRef.current,
+                    answeredAt,
+                },
+            ]);
+
+            dispatch({ type: "TURN_ENDED" });
+            setAnswerUndo({
+                eventCount,
+                messageCount,
+                facts: aiFacts,
+                beliefs: aiBeliefs,
+                turnHistory: aiTurnHistory,
+                eventCountAfter: getEventCount(),
+            });
             setIsLoading(false);
         },
         [
             lastAIQuestion,
+            lastAIFeatureKey,
             playerSecret,
+            messages,
             aiRemainingChars,
-            isAIFinalGuess,
+            pendingAIGuessId,
             lastAIAnalysis,
+            aiBeliefs,
+            aiFacts,
+            aiTurnHistory,
+            activeCharacters,
+            difficulty,
+            random,
             setIsLoading,
             addMessage,
-            setGameState,
-            setWinner,
-            setWinReason,
+            dispatch,
+            getEventCount,
         ],
     );
 
+    // The player can take back their answer until anything else happens in the game, e.g. they ask a question.
+    const canUndoAnswer =
+        isUndoAllowed &&
+        gameState === GameState.PLAYER_TURN_ASKING &&
+        answerUndo !== null &&
+        answerUndo.eventCountAfter === getEventCount();
+
+    /**
+     * Takes back the player's last answer to the AI's question: the AI's eliminations and conclusions are
+     * reverted and the question waits for an answer again.
+     */
+    const handleUndoAnswer = useCallback(() => {
+        if (!canUndoAnswer || !answerUndo) return;
+        rewind(answerUndo.eventCount);
+        truncateMessages(answerUndo.messageCount);
+        setAiFacts(answerUndo.facts);
+        setAiBeliefs(answerUndo.beliefs);
+        setAiTurnHistory(answerUndo.turnHistory);
+        setAnswerUndo(null);
+        addMessage({ sender: "SYSTEM", text: "You took back your answer. Please answer the AI's question again." });
+    }, [canUndoAnswer, answerUndo, rewind, truncateMessages, addMessage]);
+
+    // A warning only applies to the question it was raised for.
+    useEffect(() => {
+        if (gameState !== GameState.AI_TURN_WAITING_FOR_ANSWER) setAnswerWarning(null);
+    }, [gameState]);
+
+    /**
+     * Submits the player's answer, unless it does not match their own card. In that case the answer is held back
+     * with a warning until the player confirms it, since a mis-click can cost the whole game.
+     * @param answer The player's answer.
+     */
+    const handlePlayerAnswer = useCallback(
+        async (answer: "Yes" | "No") => {
+            if (!lastAIQuestion || !playerSecret) return;
+
+            let warning: string | null;
+            if (pendingAIGuessId) {
+                const isCorrectGuess = pendingAIGuessId === playerSecret.character_id;
+                warning =
+                    isCorrectGuess === (answer === "Yes")
+                        ? null
+                        : `Your card is ${playerSecret.name}, so the right answer is "${isCorrectGuess ? "Yes" : "No"}".`;
+            } else {
+                warning = builtInAIService.checkAnswerAgainstCard(
+                    { question: lastAIQuestion, featureKey: lastAIFeatureKey, analysis: lastAIAnalysis },
+                    playerSecret,
+                    boardAttributes,
+                    answer,
+                );
+            }
+
+            if (warning) {
+                setAnswerWarning({ answer, text: warning });
+                return;
+            }
+            await applyPlayerAnswer(answer);
+        },
+        [
+            lastAIQuestion,
+            lastAIFeatureKey,
+            lastAIAnalysis,
+            playerSecret,
+            pendingAIGuessId,
+            boardAttributes,
+            applyPlayerAnswer,
+        ],
+    );
+
+    /**
+     * Submits the answer the player was warned about anyway.
+     */
+    const confirmAnswerWarning = useCallback(async () => {
+        if (!answerWarning) return;
+        setAnswerWarning(null);
+        await applyPlayerAnswer(answerWarning.answer);
+    }, [answerWarning, applyPlayerAnswer]);
+
+    const cancelAnswerWarning = useCallback(() => {
+        setAnswerWarning(null);
+    }, []);
+
     return {
         aiRemainingChars,
-        setAiRemainingChars,
         lastAIAnalysis,
         setLastAIAnalysis,
-        setIsAIFinalGuess,
+        aiTurnHistory,
+        getSavedState,
+        restoreAIState,
         handlePlayerAnswer,
+        canUndoAnswer,
+        handleUndoAnswer,
+        answerWarning,
+        confirmAnswerWarning,
+        cancelAnswerWarning,
         handleConfirmAIAnalysis,
+        handleToggleAnalysisVerdict,
+        cancelAIRequests,
+        resetAITurnState,
+        aiTurnStatus,
     };
 };
@@ -60,4 +60,4 @@ export const useAIModel = () => {
         reinitializeAI,
         handleDownload,
     };
-};
\ No newline at end of file
+};
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AITurnPhase = "idle" | "thinking" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * The status of the most recently scheduled AI turn, exposed to the UI.
+ */
+export type AITurnStatus = {
+    /** The turn number the status belongs to. */
+    turn: number;
+    phase: AITurnPhase;
+    /** The current (or last) attempt within the turn, starting at 1. */
+    attempt: number;
+    /** The maximum number of attempts the turn is allowed. */
+    maxAttempts: number;
+};
+
+/**
+ * The context handed to a scheduled turn task.
+ */
+export type AITurnContext = {
+    turn: number;
+    /** Aborted when the turn is cancelled or superseded by a newer turn. */
+    signal: AbortSignal;
+    /** Whether the task is still the active turn. Tasks must check this before committing any state. */
+    isCurrent: () => boolean;
+    /** Reports progress so the UI can show which attempt is running. */
+    reportAttempt: (attempt: number, maxAttempts: number) => void;
+};
+
+/** A task that runs one AI turn and resolves to whether the turn produced a usable result. */
+export type AITurnTask = (context: AITurnContext) => Promise<boolean>;
+
+const IDLE_STATUS: AITurnStatus = { turn: 0, phase: "idle", attempt: 0, maxAttempts: 0 };
+
+/**
+ * Guarantees that at most one AI request is in flight per turn.
+ * Turns are keyed by a monotonically increasing number: scheduling a turn that is already running (or older
+ * than the latest one) is a no-op, and completions of superseded or cancelled turns are ignored.
+ */
+export const useAITurnScheduler = () => {
+    const [turnStatus, setTurnStatus] = useState<AITurnStatus>(IDLE_STATUS);
+    const activeRef = useRef<{ turn: number; controller: AbortController } | null>(null);
+    const lastScheduledTurnRef = useRef(0);
+
+    /**
+     * Starts the task for the given turn unless that turn has already been scheduled.
+     * @param turn The turn number.
+     * @param task The work to run for the turn.
+     * @returns True if the task was started, false if the call was a duplicate.
+     */
+    const scheduleTurn = useCallback((turn: number, task: AITurnTask): boolean => {
+        if (turn <= lastScheduledTurnRef.current) return false;
+
+        activeRef.current?.controller.abort();
+        lastScheduledTurnRef.current = turn;
+
+        const controller = new AbortController();
+        activeRef.current = { turn, controller };
+        const isCurrent = () => activeRef.current?.controller === controller && !controller.signal.aborted;
+
+        let attempt = 1;
+        let maxAttempts = 1;
+        setTurnStatus({ turn, phase: "thinking", attempt, maxAttempts });
+
+        const finish = (phase: AITurnPhase) => {
+            if (!isCurrent()) return;
+            activeRef.current = null;
+            setTurnStatus({ turn, phase, attempt, maxAttempts });
+        };
+
+        task({
+            turn,
+            signal: controller.signal,
+            isCurrent,
+            reportAttempt: (nextAttempt, nextMaxAttempts) => {
+                if (!isCurrent()) return;
+                attempt = nextAttempt;
+                maxAttempts = nextMaxAttempts;
+                setTurnStatus({ turn, phase: "thinking", attempt, maxAttempts });
+            },
+        })
+            .then((succeeded) => finish(succeeded ? "succeeded" : "failed"))
+            .catch((error) => {
+                console.error(`AI turn ${turn} failed unexpectedly:`, error);
+                finish("failed");
+            });
+
+        return true;
+    }, []);
+
+    /**
+     * Cancels the active turn, aborting its in-flight request.
+     */
+    const cancelTurn = useCallback(() => {
+        const active = activeRef.current;
+        if (!active) return;
+        active.controller.abort();
+        activeRef.current = null;
+        setTurnStatus((prev) => (prev.turn === active.turn ? { ...prev, phase: "cancelled" } : prev));
+    }, []);
+
+    // Never leave a request running after the owner unmounts.
+    useEffect(() => () => activeRef.current?.controller.abort(), []);
+
+    return { turnStatus, scheduleTurn, cancelTurn };
+};
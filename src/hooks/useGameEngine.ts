@@ -0,0 +1,44 @@
+import { useCallback, useState, useSyncExternalStore } from "react";
+import { createGameEngine, InvalidTransitionError, type GameEvent } from "../engine";
+
+/**
+ * Subscribes React to a game engine. The engine owns the rules; components and hooks only read its state and
+ * send it events.
+ */
+export const useGameEngine = () => {
+    const [engine] = useState(() => createGameEngine());
+    const engineState = useSyncExternalStore(engine.subscribe, engine.getState);
+
+    /**
+     * Sends an event to the engine. An event that is not allowed in the current state is logged and ignored, so
+     * a late response from the AI can never corrupt the game.
+     * @param event The event to apply.
+     * @returns True if the event was applied.
+     */
+    const dispatch = useCallback(
+        (event: GameEvent): boolean => {
+            try {
+                engine.dispatch(event);
+                return true;
+            } catch (error) {
+                if (!(error instanceof InvalidTransitionError)) throw error;
+                console.warn("Rejected game event:", error.message, event);
+                return false;
+            }
+        },
+        [engine],
+    );
+
+    /**
+     * Returns the number of events applied so far, e.g. to rewind to this point later.
+     */
+    const getEventCount = useCallback(() => engine.getEvents().length, [engine]);
+
+    /**
+     * Takes back every event after the given point.
+     * @param eventCount The number of events to keep, as returned by `getEventCount` earlier.
+     */
+    const rewind = useCallback((eventCount: number) => engine.rewind(eventCount), [engine]);
+
+    return { engine, engineState, dispatch, getEventCount, rewind };
+};
@@ -1,5 +1,17 @@
-import { useCallback } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+    createSeed,
+    createSeededRandom,
+    getLatestGameEvents,
+    isGameInProgress,
+    pickBoard,
+    replayEvents,
+    type GameEvent,
+    type SeededRandom,
+} from "../engine";
+import * as builtInAIService from "../services/builtInAIService.ts";
 import * as dbService from "../services/dbService";
+import * as transcriptService from "../services/transcript";
 import { AIStatus, GameState, type Character } from "../types";
 import { useAIActions } from "./useAIActions";
 import { useAIModel } from "./useAIModel";
@@ -30,88 +42,265 @@ export const useGameLogic = () => {
     } = useAIModel();
 
     const {
+        engine,
+        engineState,
+        dispatch,
+        getEventCount,
+        rewind,
         gameState,
-        setGameState,
         activeCharacters,
         playerSecret,
         aiSecret,
         messages,
         addMessage,
+        updateMessage,
+        truncateMessages,
         winner,
-        setWinner,
         winReason,
-        setWinReason,
         isLoading,
         setIsLoading,
+        loadingMessage,
+        boardAttributes,
+        random,
         startGame: coreStartGame,
+        resumeGame: coreResumeGame,
         resetGame: coreResetGame,
-        shuffleArray,
     } = useGameState();
 
-    const { isReviewModeEnabled, hasCustomSet, setHasCustomSet, handleSetReviewMode } = useGameSettings(gameState);
+    const {
+        isReviewModeEnabled,
+        isVotingEnabled,
+        difficulty,
+        assistMode,
+        undoPolicy,
+        isUndoAllowed,
+        reliability,
+        requestedSeed,
+        fixedSecrets,
+        hasCustomSet,
+        setHasCustomSet,
+        hasSavedGame,
+        setHasSavedGame,
+        handleSetReviewMode,
+        handleSetVoting,
+        handleSetDifficulty,
+        handleSetAssistMode,
+        handleSetUndoPolicy,
+        handleSetReliability,
+        handleSetRequestedSeed,
+        clearRequestedGame,
+    } = useGameSettings(gameState);
+
+    const {
+        playerEliminatedChars,
+        handleToggleCard,
+        handleUndoFlip,
+        canUndoFlip,
+        getSavedState: getSavedPlayerState,
+        restorePlayerState,
+        handlePlayerQuestion,
+        handleEndTurn,
+        endTurn,
+        endTurnWarning,
+        dismissEndTurnWarning,
+        cancelPlayerRequests,
+        handleDisputeAnswer,
+        handleRestoreDisputedCards,
+        handleExplainAnswer,
+        disputeStats,
+        pendingGuess,
+        startGuess,
+        cancelGuess,
+        selectGuessCandidate,
+        confirmGuess,
+        askPendingGuessAsQuestion,
+    } = usePlayerActions({
+        isLoading,
+        setIsLoading,
+        messages,
+        addMessage,
+        updateMessage,
+        dispatch,
+        playerEliminatedIds: engineState.playerEliminatedIds,
+        aiSecret,
+        assistMode,
+        isUndoAllowed,
+        activeCharacters,
+    });
 
     const {
         aiRemainingChars,
-        setAiRemainingChars,
         lastAIAnalysis,
         setLastAIAnalysis,
-        setIsAIFinalGuess,
+        aiTurnHistory,
+        getSavedState: getSavedAIState,
+        restoreAIState,
         handlePlayerAnswer,
+        canUndoAnswer,
+        handleUndoAnswer,
+        answerWarning,
+        confirmAnswerWarning,
+        cancelAnswerWarning,
         handleConfirmAIAnalysis,
+        handleToggleAnalysisVerdict,
+        cancelAIRequests,
+        resetAITurnState,
+        aiTurnStatus,
     } = useAIActions({
         gameState,
         messages,
         playerSecret,
+        activeCharacters,
+        boardAttributes,
+        playerRemainingCount: activeCharacters.length - playerEliminatedChars.size,
         isReviewModeEnabled,
+        isVotingEnabled,
+        difficulty,
+        reliability,
+        onReliabilityChange: handleSetReliability,
+        random,
         setIsLoading,
         addMessage,
-        setGameState,
-        setWinner,
-        setWinReason,
+        truncateMessages,
+        isUndoAllowed,
+        aiRemainingIds: engineState.aiRemainingIds,
+        pendingAIGuessId: engineState.pendingAIGuessId,
+        dispatch,
+        getEventCount,
+        rewind,
     });
 
-    const { playerEliminatedChars, setPlayerEliminatedChars, handlePlayerQuestion, handleEndTurn } = usePlayerActions({
-        isLoading,
-        setIsLoading,
-        addMessage,
-        setGameState,
-        setWinner,
-        setWinReason,
-        aiSecret,
-        activeCharacters,
-    });
+    // Once the game is over, check every AI question against the player's real card.
+    const gameAudit = useMemo(
+        () =>
+            gameState === GameState.GAME_OVER && playerSecret
+                ? builtInAIService.auditGame(aiTurnHistory, playerSecret, boardAttributes)
+                : [],
+        [gameState, aiTurnHistory, playerSecret, boardAttributes],
+    );
+
+    // Record every finished game, together with the difficulty it was played at, exactly once.
+    const isResultRecordedRef = useRef(false);
+    useEffect(() => {
+        if (gameState !== GameState.GAME_OVER) {
+            isResultRecordedRef.current = false;
+            return;
+        }
+        if (!winner || isResultRecordedRef.current) return;
+        isResultRecordedRef.current = true;
+        dbService
+            .saveGameResult({
+                winner,
+                reason: winReason,
+                difficulty,
+                characterCount: activeCharacters.length,
+                disputes: disputeStats.disputes,
+                overturnedDisputes: disputeStats.overturnedDisputes,
+                finishedAt: Date.now(),
+            })
+            .catch((error) => console.warn("Could not record game result:", error));
+    }, [gameState, winner, winReason, difficulty, activeCharacters, disputeStats]);
+
+    // Saves and deletes run one after another, so a late save can never bring back a finished game.
+    const savedGameQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const queueSavedGameUpdate = useCallback((update: () => Promise<void>) => {
+        savedGameQueueRef.current = savedGameQueueRef.current
+            .then(update)
+            .catch((error) => console.warn("Could not update the saved game:", error));
+        return savedGameQueueRef.current;
+    }, []);
+
+    // Save the game after every transition so it survives a reload. While a question is being answered the save is
+    // skipped: resuming there would wait for a response that never comes, so the game resumes just before it.
+    useEffect(() => {
+        if (gameState === GameState.GAME_OVER) {
+            queueSavedGameUpdate(dbService.deleteSavedGame).then(() => setHasSavedGame(false));
+            return;
+        }
+        if (!isGameInProgress(gameState)) return;
+        const { pendingQuestion } = engineState;
+        if (pendingQuestion && (pendingQuestion.asker === "PLAYER" || pendingQuestion.answer)) return;
+
+        // Image URLs only live as long as the page, so characters are saved by id and looked up again on resume.
+        const events = getLatestGameEvents(engine.getEvents()).map(
+            (event): GameEvent =>
+                event.type === "GAME_STARTED"
+                    ? {
+                          ...event,
+                          characters: event.characters.map(({ character_id, name }) => ({
+                              character_id,
+                              name,
+                              image: "",
+                          })),
+                      }
+                    : event,
+        );
+        const game = {
+            events,
+            messages,
+            boardAttributes,
+            ai: getSavedAIState(),
+            player: getSavedPlayerState(),
+            savedAt: Date.now(),
+        };
+        queueSavedGameUpdate(() => dbService.saveGame(game));
+    }, [
+        gameState,
+        engine,
+        engineState,
+        messages,
+        boardAttributes,
+        getSavedAIState,
+        getSavedPlayerState,
+        queueSavedGameUpdate,
+        setHasSavedGame,
+    ]);
 
     //
     // --- Top-level handlers that compose logic from sub-hooks ---
     //
 
+    /**
+     * Creates the generator for a new game from the requested seed, or from a fresh one.
+     */
+    const createGameRandom = useCallback(
+        () => createSeededRandom(requestedSeed.trim() || createSeed()),
+        [requestedSeed],
+    );
+
     const startGame = useCallback(
-        async (characterSet: Character[]) => {
+        async (characterSet: Character[], rng: SeededRandom = createGameRandom()) => {
             try {
-                await coreStartGame(characterSet, setAiRemainingChars);
+                await coreStartGame(characterSet, rng, fixedSecrets);
+                clearRequestedGame();
             } catch (error) {
                 console.error("Game start failed:", error);
                 setAiStatus(AIStatus.ERROR);
                 setAiStatusMessage(error instanceof Error ? error.message : "Failed to start game session.");
-                setGameState(GameState.SETUP);
+                dispatch({ type: "SETUP_OPENED" });
                 throw error;
             }
         },
-        [coreStartGame, setAiRemainingChars, setAiStatus, setAiStatusMessage, setGameState],
+        [coreStartGame, createGameRandom, fixedSecrets, clearRequestedGame, setAiStatus, setAiStatusMessage, dispatch],
     );
 
+    const openSetup = useCallback(() => dispatch({ type: "SETUP_OPENED" }), [dispatch]);
+
+    const openCustomSetup = useCallback(() => dispatch({ type: "CUSTOM_SETUP_OPENED" }), [dispatch]);
+
     const handleStartDefault = useCallback(async () => {
         if (!defaultCharsWithBlobs) return;
         setIsLoading(true);
         try {
-            const selectedCharacters = shuffleArray(defaultCharsWithBlobs).slice(0, 5);
-            await startGame(selectedCharacters);
+            const rng = createGameRandom();
+            const selectedCharacters = pickBoard(defaultCharsWithBlobs, 5, rng.next, fixedSecrets);
+            await startGame(selectedCharacters, rng);
         } catch (e) {
             // Error is handled by startGame
         } finally {
             setIsLoading(false);
         }
-    }, [defaultCharsWithBlobs, startGame, setIsLoading, shuffleArray]);
+    }, [defaultCharsWithBlobs, createGameRandom, fixedSecrets, startGame, setIsLoading]);
 
     const handleStartWithCustomSet = useCallback(async () => {
         setIsLoading(true);
@@ -134,21 +323,142 @@ export const useGameLogic = () => {
         }
     }, [startGame, setIsLoading, setHasCustomSet, addMessage]);
 
+    /**
+     * Resumes the saved game. The characters are looked up by id among the default characters and the saved custom
+     * set, and the AI session is rebuilt from the facts the AI had learned.
+     */
+    const handleResumeGame = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const saved = await dbService.loadSavedGame();
+            const startEvent = saved?.events.find((event) => event.type === "GAME_STARTED");
+            if (!saved || startEvent?.type !== "GAME_STARTED") {
+                setHasSavedGame(false);
+                return;
+            }
+
+            const ids = startEvent.characters.map((c) => c.character_id);
+            let pool = defaultCharsWithBlobs ?? [];
+            if (ids.some((id) => !pool.some((c) => c.character_id === id))) {
+                pool = [...pool, ...((await dbService.loadCustomCharacters()) ?? [])];
+            }
+            const characters = pool.filter((c) => ids.includes(c.character_id));
+            if (characters.length !== ids.length) {
+                console.warn("The saved game's characters are no longer available.");
+                queueSavedGameUpdate(dbService.deleteSavedGame);
+                setHasSavedGame(false);
+                return;
+            }
+
+            try {
+                await builtInAIService.resumeGameSession(saved.ai.facts);
+            } catch (error) {
+                console.error("Game resume failed:", error);
+                setAiStatus(AIStatus.ERROR);
+                setAiStatusMessage(error instanceof Error ? error.message : "Failed to resume the game session.");
+                return;
+            }
+
+            const events = saved.events.map((event) =>
+                event.type === "GAME_STARTED"
+                    ? { ...event, characters: ids.map((id) => characters.find((c) => c.character_id === id)!) }
+                    : event,
+            );
+            // Throws for a save that does not form a valid game, before anything is restored.
+            replayEvents(events);
+
+            restoreAIState(saved.ai);
+            restorePlayerState(saved.player);
+            coreResumeGame(events, saved.messages, saved.boardAttributes);
+        } catch (error) {
+            console.error("Failed to resume the saved game:", error);
+            queueSavedGameUpdate(dbService.deleteSavedGame);
+            setHasSavedGame(false);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [
+        defaultCharsWithBlobs,
+        setIsLoading,
+        setHasSavedGame,
+        setAiStatus,
+        setAiStatusMessage,
+        restoreAIState,
+        restorePlayerState,
+        coreResumeGame,
+        queueSavedGameUpdate,
+    ]);
+
     const resetGame = useCallback(() => {
-        coreResetGame(setPlayerEliminatedChars, setLastAIAnalysis, setIsAIFinalGuess, setDownloadProgress);
+        // Abort in-flight inference first so late results cannot leak into the next game.
+        cancelAIRequests();
+        cancelPlayerRequests();
+        cancelGuess();
+        resetAITurnState();
+        coreResetGame(setLastAIAnalysis, setDownloadProgress);
+        // Starting over abandons the current game.
+        queueSavedGameUpdate(dbService.deleteSavedGame).then(() => setHasSavedGame(false));
         if (aiStatus === AIStatus.ERROR || aiStatus === AIStatus.UNAVAILABLE) {
             reinitializeAI();
         }
     }, [
+        cancelAIRequests,
+        cancelPlayerRequests,
+        cancelGuess,
+        resetAITurnState,
         coreResetGame,
-        setPlayerEliminatedChars,
         setLastAIAnalysis,
-        setIsAIFinalGuess,
         setDownloadProgress,
+        queueSavedGameUpdate,
+        setHasSavedGame,
         aiStatus,
         reinitializeAI,
     ]);
 
+    /**
+     * Downloads a transcript of the current game, finished or not, e.g. to file a bug about the AI.
+     * @param format Whether to download the JSON or the Markdown version.
+     */
+    const handleExportTranscript = useCallback(
+        (format: transcriptService.TranscriptFormat) => {
+            const ai = getSavedAIState();
+            const { pendingQuestion } = engineState;
+            const transcript = transcriptService.createTranscript({
+                seed: engineState.seed,
+                settings: { difficulty, isReviewModeEnabled, isVotingEnabled, assistMode, undoPolicy },
+                characters: activeCharacters,
+                playerSecretId: engineState.playerSecretId,
+                aiSecretId: engineState.aiSecretId,
+                phase: gameState,
+                winner,
+                winReason,
+                messages,
+                aiTurns: ai.turnHistory,
+                pendingAIQuestion:
+                    pendingQuestion?.asker === "AI" && !pendingQuestion.answer
+                        ? { question: pendingQuestion.question, analysis: ai.lastAnalysis }
+                        : null,
+                audit: gameAudit,
+            });
+            transcriptService.downloadTranscript(transcript, format);
+        },
+        [
+            getSavedAIState,
+            engineState,
+            difficulty,
+            isReviewModeEnabled,
+            isVotingEnabled,
+            assistMode,
+            undoPolicy,
+            activeCharacters,
+            gameState,
+            winner,
+            winReason,
+            messages,
+            gameAudit,
+        ],
+    );
+
     //
     // --- Return combined state and handlers for the App component ---
     //
@@ -163,6 +473,7 @@ export const useGameLogic = () => {
         winner,
         winReason,
         isLoading,
+        loadingMessage,
         playerEliminatedChars,
         aiRemainingChars,
         aiStatus,
@@ -170,23 +481,59 @@ export const useGameLogic = () => {
         downloadProgress,
         defaultCharsWithBlobs,
         hasCustomSet,
+        hasSavedGame,
         lastAIAnalysis,
+        aiTurnHistory,
+        gameAudit,
+        answerWarning,
         isReviewModeEnabled,
-
-        // State Setters
-        setGameState,
-        setPlayerEliminatedChars,
+        isVotingEnabled,
+        difficulty,
+        assistMode,
+        undoPolicy,
+        requestedSeed,
+        seed: engineState.seed,
+        endTurnWarning,
+        aiTurnStatus,
+        pendingGuess,
+        canUndoFlip,
+        canUndoAnswer,
 
         // Handlers
         startGame,
         resetGame,
+        openSetup,
+        openCustomSetup,
+        handleToggleCard,
+        handleUndoFlip,
         handleStartDefault,
         handleStartWithCustomSet,
+        handleResumeGame,
+        handleExportTranscript,
         handlePlayerQuestion,
         handleEndTurn,
+        endTurn,
+        dismissEndTurnWarning,
+        handleDisputeAnswer,
+        handleRestoreDisputedCards,
+        handleExplainAnswer,
+        startGuess,
+        cancelGuess,
+        selectGuessCandidate,
+        confirmGuess,
+        askPendingGuessAsQuestion,
         handlePlayerAnswer,
+        handleUndoAnswer,
+        confirmAnswerWarning,
+        cancelAnswerWarning,
         handleConfirmAIAnalysis,
+        handleToggleAnalysisVerdict,
         handleSetReviewMode,
+        handleSetVoting,
+        handleSetDifficulty,
+        handleSetAssistMode,
+        handleSetUndoPolicy,
+        handleSetRequestedSeed,
         handleDownload,
     };
-};
\ No newline at end of file
+};
@@ -1,8 +1,39 @@
 import { useCallback, useEffect, useState } from "react";
+import { type FixedSecrets } from "../engine";
+import * as builtInAIService from "../services/builtInAIService.ts";
 import * as dbService from "../services/dbService";
-import { GameState } from "../types";
+import { AIDifficulty, GameState, PlayerAssistMode, UndoPolicy, type FeatureReliability } from "../types";
 
 const REVIEW_MODE_STORAGE_KEY = "ai-guess-who-review-mode";
+const VOTING_STORAGE_KEY = "ai-guess-who-consistency-voting";
+const DIFFICULTY_STORAGE_KEY = "ai-guess-who-difficulty";
+const ASSIST_MODE_STORAGE_KEY = "ai-guess-who-assist-mode";
+const UNDO_POLICY_STORAGE_KEY = "ai-guess-who-undo-policy";
+const RELIABILITY_STORAGE_KEY = "ai-guess-who-feature-reliability";
+
+/** URL search parameters for reproducing a game, e.g. `?seed=k3x9q2ab&playerCard=Tom&aiCard=Gina`. */
+const SEED_QUERY_PARAM = "seed";
+const PLAYER_SECRET_QUERY_PARAM = "playerCard";
+const AI_SECRET_QUERY_PARAM = "aiCard";
+
+/**
+ * Reads the seed and the secret characters requested in the page URL.
+ */
+function readGameParamsFromUrl(): { seed: string; secrets: FixedSecrets } {
+    try {
+        const params = new URLSearchParams(self.location?.search ?? "");
+        return {
+            seed: params.get(SEED_QUERY_PARAM) ?? "",
+            secrets: {
+                playerSecretId: params.get(PLAYER_SECRET_QUERY_PARAM) ?? undefined,
+                aiSecretId: params.get(AI_SECRET_QUERY_PARAM) ?? undefined,
+            },
+        };
+    } catch {
+        // No location available (e.g. when running outside a browser).
+        return { seed: "", secrets: {} };
+    }
+}
 
 /**
  * Manages user-configurable game settings and checks for saved custom data.
@@ -16,12 +47,72 @@ export const useGameSettings = (gameState: GameState) => {
             return true;
         }
     });
+    const [isVotingEnabled, setIsVotingEnabled] = useState<boolean>(() => {
+        try {
+            const storedValue = localStorage.getItem(VOTING_STORAGE_KEY);
+            return storedValue ? JSON.parse(storedValue) : false;
+        } catch {
+            return false;
+        }
+    });
+    const [difficulty, setDifficulty] = useState<AIDifficulty>(() => {
+        try {
+            const storedValue = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+            const parsed: unknown = storedValue ? JSON.parse(storedValue) : null;
+            return builtInAIService.isAIDifficulty(parsed) ? parsed : builtInAIService.DEFAULT_DIFFICULTY;
+        } catch {
+            return builtInAIService.DEFAULT_DIFFICULTY;
+        }
+    });
+    const [assistMode, setAssistMode] = useState<PlayerAssistMode>(() => {
+        try {
+            const storedValue = localStorage.getItem(ASSIST_MODE_STORAGE_KEY);
+            const parsed: unknown = storedValue ? JSON.parse(storedValue) : null;
+            return Object.values(PlayerAssistMode).includes(parsed as PlayerAssistMode)
+                ? (parsed as PlayerAssistMode)
+                : PlayerAssistMode.STRICT;
+        } catch {
+            return PlayerAssistMode.STRICT;
+        }
+    });
+    const [undoPolicy, setUndoPolicy] = useState<UndoPolicy>(() => {
+        try {
+            const storedValue = localStorage.getItem(UNDO_POLICY_STORAGE_KEY);
+            const parsed: unknown = storedValue ? JSON.parse(storedValue) : null;
+            return Object.values(UndoPolicy).includes(parsed as UndoPolicy)
+                ? (parsed as UndoPolicy)
+                : UndoPolicy.CASUAL;
+        } catch {
+            return UndoPolicy.CASUAL;
+        }
+    });
+    const isUndoAllowed = undoPolicy === UndoPolicy.CASUAL;
+    /** How often the player corrected the AI per feature type. Not a setting as such, but kept across games. */
+    const [reliability, setReliability] = useState<FeatureReliability>(() => {
+        try {
+            const storedValue = localStorage.getItem(RELIABILITY_STORAGE_KEY);
+            const parsed: unknown = storedValue ? JSON.parse(storedValue) : null;
+            return builtInAIService.isFeatureReliability(parsed) ? parsed : {};
+        } catch {
+            return {};
+        }
+    });
+    const [urlParams] = useState(readGameParamsFromUrl);
+    /** The seed for the next game, or an empty string for a random one. Not persisted. */
+    const [requestedSeed, setRequestedSeed] = useState(urlParams.seed);
+    /** The secret characters requested in the URL, for the next game only. */
+    const [fixedSecrets, setFixedSecrets] = useState<FixedSecrets>(urlParams.secrets);
     const [hasCustomSet, setHasCustomSet] = useState(false);
+    const [hasSavedGame, setHasSavedGame] = useState(false);
 
-    // Check for a saved custom game when returning to the setup screen
+    // Check for a saved custom game and an interrupted game when returning to the setup screen
     useEffect(() => {
         if (gameState === GameState.SETUP) {
             dbService.hasCustomCharacters().then(setHasCustomSet);
+            dbService
+                .hasSavedGame()
+                .then(setHasSavedGame)
+                .catch(() => setHasSavedGame(false));
         }
     }, [gameState]);
 
@@ -34,10 +125,81 @@ export const useGameSettings = (gameState: GameState) => {
         }
     }, []);
 
+    const handleSetVoting = useCallback((isEnabled: boolean) => {
+        setIsVotingEnabled(isEnabled);
+        try {
+            localStorage.setItem(VOTING_STORAGE_KEY, JSON.stringify(isEnabled));
+        } catch (e) {
+            console.error("Failed to save consistency voting setting", e);
+        }
+    }, []);
+
+    const handleSetDifficulty = useCallback((nextDifficulty: AIDifficulty) => {
+        setDifficulty(nextDifficulty);
+        try {
+            localStorage.setItem(DIFFICULTY_STORAGE_KEY, JSON.stringify(nextDifficulty));
+        } catch (e) {
+            console.error("Failed to save difficulty setting", e);
+        }
+    }, []);
+
+    const handleSetAssistMode = useCallback((nextMode: PlayerAssistMode) => {
+        setAssistMode(nextMode);
+        try {
+            localStorage.setItem(ASSIST_MODE_STORAGE_KEY, JSON.stringify(nextMode));
+        } catch (e) {
+            console.error("Failed to save assist mode setting", e);
+        }
+    }, []);
+
+    const handleSetUndoPolicy = useCallback((nextPolicy: UndoPolicy) => {
+        setUndoPolicy(nextPolicy);
+        try {
+            localStorage.setItem(UNDO_POLICY_STORAGE_KEY, JSON.stringify(nextPolicy));
+        } catch (e) {
+            console.error("Failed to save undo policy setting", e);
+        }
+    }, []);
+
+    /**
+     * Forgets the requested seed and secret characters once a game has been started with them,
+     * so the following games are random again.
+     */
+    const clearRequestedGame = useCallback(() => {
+        setRequestedSeed("");
+        setFixedSecrets({});
+    }, []);
+
+    const handleSetReliability = useCallback((nextReliability: FeatureReliability) => {
+        setReliability(nextReliability);
+        try {
+            localStorage.setItem(RELIABILITY_STORAGE_KEY, JSON.stringify(nextReliability));
+        } catch (e) {
+            console.error("Failed to save feature reliability", e);
+        }
+    }, []);
+
     return {
         isReviewModeEnabled,
+        isVotingEnabled,
+        difficulty,
+        assistMode,
+        undoPolicy,
+        isUndoAllowed,
+        reliability,
+        requestedSeed,
+        fixedSecrets,
         hasCustomSet,
         setHasCustomSet,
+        hasSavedGame,
+        setHasSavedGame,
         handleSetReviewMode,
+        handleSetVoting,
+        handleSetDifficulty,
+        handleSetAssistMode,
+        handleSetUndoPolicy,
+        handleSetReliability,
+        handleSetRequestedSeed: setRequestedSeed,
+        clearRequestedGame,
     };
 };
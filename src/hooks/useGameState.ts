@@ -1,40 +1,84 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { createSeededRandom, pickSecrets, type FixedSecrets, type GameEvent, type SeededRandom } from "../engine";
 import * as buildInAIService from "../services/builtInAIService.ts";
-import { GameState, type Character, type EliminationAnalysisResult, type GameWinner, type Message } from "../types";
+import { type BoardAttributes, type Character, type EliminationAnalysisResult, type Message } from "../types";
+import { useGameEngine } from "./useGameEngine";
 
 /**
- * A utility function to shuffle an array using the Fisher-Yates algorithm.
- * @param array The array to shuffle.
- * @returns A new shuffled array.
+ * Drops the parts of a message that were waiting for a request when the game was saved, since that request will
+ * never complete. The player can start it again.
  */
-const shuffleArray = <T>(array: T[]): T[] => {
-    const newArray = [...array];
-    for (let i = newArray.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-    }
-    return newArray;
+const clearPendingRequests = (message: Message): Message => {
+    const { meta } = message;
+    if (!meta || (meta.dispute?.status !== "pending" && meta.explanation?.status !== "pending")) return message;
+    return {
+        ...message,
+        meta: {
+            ...meta,
+            dispute: meta.dispute?.status === "pending" ? undefined : meta.dispute,
+            explanation: meta.explanation?.status === "pending" ? undefined : meta.explanation,
+        },
+    };
 };
 
 /**
- * Manages the core state of the game, including characters, secrets, messages, and game flow.
+ * Manages the core state of the game. The game flow, boards and secrets live in the game engine; this hook adds
+ * the chat log and loading state around it.
  */
 export const useGameState = () => {
-    const [gameState, setGameState] = useState<GameState>(GameState.SETUP);
-    const [activeCharacters, setActiveCharacters] = useState<Character[]>([]);
-    const [playerSecret, setPlayerSecret] = useState<Character | null>(null);
-    const [aiSecret, setAiSecret] = useState<Character | null>(null);
+    const { engine, engineState, dispatch, getEventCount, rewind } = useGameEngine();
+    const { phase: gameState, characters: activeCharacters, winner, winReason } = engineState;
+    const playerSecret = useMemo(
+        () => activeCharacters.find((c) => c.character_id === engineState.playerSecretId) ?? null,
+        [activeCharacters, engineState.playerSecretId],
+    );
+    const aiSecret = useMemo(
+        () => activeCharacters.find((c) => c.character_id === engineState.aiSecretId) ?? null,
+        [activeCharacters, engineState.aiSecretId],
+    );
     const [messages, setMessages] = useState<Message[]>([]);
-    const [winner, setWinner] = useState<GameWinner>(null);
-    const [winReason, setWinReason] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [loadingMessage, setLoadingMessage] = useState("");
+    const [boardAttributes, setBoardAttributes] = useState<BoardAttributes>({});
+    /** The game's seeded generator. It keeps running after the setup, so the AI's choices are reproducible too. */
+    const randomRef = useRef<() => number>(Math.random);
+    /** Cancels the pre-game board analysis when the game is reset before it starts. */
+    const boardAnalysisControllerRef = useRef<AbortController | null>(null);
 
     const addMessage = useCallback((message: Message) => {
-        setMessages((prev) => [...prev, message]);
+        setMessages((prev) => [...prev, { ...message, sentAt: message.sentAt ?? Date.now() }]);
+    }, []);
+
+    /**
+     * Replaces the message with the given id, e.g. to annotate an answer after a dispute.
+     * @param id The id of the message to update.
+     * @param update Produces the new message from the current one.
+     */
+    const updateMessage = useCallback((id: string, update: (message: Message) => Message) => {
+        setMessages((prev) => prev.map((message) => (message.id === id ? update(message) : message)));
+    }, []);
+
+    /**
+     * Removes the latest messages, e.g. when the player takes back an answer.
+     * @param count The number of messages to keep.
+     */
+    const truncateMessages = useCallback((count: number) => {
+        setMessages((prev) => prev.slice(0, count));
     }, []);
 
+    /**
+     * Returns the next random number of the current game.
+     */
+    const random = useCallback(() => randomRef.current(), []);
+
+    /**
+     * Starts a new game on the given board.
+     * @param characterSet The characters on the board.
+     * @param rng The seeded generator the secrets are drawn with.
+     * @param secrets Secret characters requested up front, e.g. to reproduce a reported game.
+     */
     const startGame = useCallback(
-        async (characterSet: Character[], setAiRemainingChars: React.Dispatch<React.SetStateAction<Character[]>>) => {
+        async (characterSet: Character[], rng: SeededRandom, secrets?: FixedSecrets) => {
             if (characterSet.some((c) => !c.imageBlob)) {
                 throw new Error("Missing character image blobs.");
             }
@@ -46,73 +90,118 @@ export const useGameState = () => {
                 throw error; // Re-throw to be handled by the caller
             }
 
-            setActiveCharacters(characterSet);
-            setAiRemainingChars(characterSet);
-
-            const playerIndex = Math.floor(Math.random() * characterSet.length);
-            let aiIndex;
-            do {
-                aiIndex = Math.floor(Math.random() * characterSet.length);
-            } while (aiIndex === playerIndex);
+            // Pre-game board analysis. Cached per character, so this is only slow the first time a set is used.
+            // A failure here is not fatal: the AI falls back to looking at the images every turn.
+            boardAnalysisControllerRef.current?.abort();
+            const controller = new AbortController();
+            boardAnalysisControllerRef.current = controller;
+            let attributes: BoardAttributes = {};
+            try {
+                attributes = await buildInAIService.analyzeBoard(characterSet, {
+                    onProgress: (analyzed, total) =>
+                        setLoadingMessage(
+                            analyzed < total ? `Analyzing the board (${analyzed + 1} of ${total})...` : "",
+                        ),
+                    signal: controller.signal,
+                });
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    console.warn("Board analysis failed, the AI will analyze images every turn:", error);
+                }
+            } finally {
+                setLoadingMessage("");
+                if (boardAnalysisControllerRef.current === controller) boardAnalysisControllerRef.current = null;
+            }
+            // The game was reset while the board was being analyzed.
+            if (controller.signal.aborted) return;
+            setBoardAttributes(attributes);
 
-            const pSecret = characterSet[playerIndex];
-            const aSecret = characterSet[aiIndex];
-            setPlayerSecret(pSecret);
-            setAiSecret(aSecret);
+            const { playerSecretId, aiSecretId } = pickSecrets(characterSet, rng.next, secrets);
+            const pSecret = characterSet.find((c) => c.character_id === playerSecretId)!;
+            const aSecret = characterSet.find((c) => c.character_id === aiSecretId)!;
+            randomRef.current = rng.next;
 
             console.log("%c[DEBUG] AI Secret Character:", "color: #f59e0b; font-weight: bold;", aSecret.name);
+            console.log("%c[DEBUG] Game seed:", "color: #f59e0b; font-weight: bold;", rng.seed);
 
             setMessages([
                 {
                     sender: "SYSTEM",
                     text: `New game started. You drew ${pSecret.name}. It's your turn to ask a question.`,
+                    sentAt: Date.now(),
                 },
             ]);
-            setWinner(null);
-            setWinReason("");
-            setGameState(GameState.PLAYER_TURN_ASKING);
+            dispatch({
+                type: "GAME_STARTED",
+                seed: rng.seed,
+                characters: characterSet,
+                playerSecretId,
+                aiSecretId,
+            });
+        },
+        [dispatch],
+    );
+
+    /**
+     * Restores a saved game. The AI session has to be rebuilt separately.
+     * @param events The engine events of the saved game, with the characters looked up again.
+     * @param savedMessages The saved chat log.
+     * @param attributes The saved board analysis.
+     * @throws {InvalidTransitionError} If the events do not form a valid game.
+     */
+    const resumeGame = useCallback(
+        (events: GameEvent[], savedMessages: Message[], attributes: BoardAttributes) => {
+            engine.load(events);
+            const { seed } = engine.getState();
+            // The generator starts over from the seed; only a game played without interruption is fully reproducible.
+            randomRef.current = seed ? createSeededRandom(seed).next : Math.random;
+            setMessages(savedMessages.map(clearPendingRequests));
+            setBoardAttributes(attributes);
         },
-        [],
+        [engine],
     );
 
     const resetGame = useCallback(
         (
-            setPlayerEliminatedChars: React.Dispatch<React.SetStateAction<Set<string>>>,
             setLastAIAnalysis: React.Dispatch<React.SetStateAction<EliminationAnalysisResult[]>>,
-            setIsAIFinalGuess: React.Dispatch<React.SetStateAction<boolean>>,
             setDownloadProgress: React.Dispatch<React.SetStateAction<number | null>>,
         ) => {
-            setGameState(GameState.SETUP);
-            setActiveCharacters([]);
-            setPlayerSecret(null);
-            setAiSecret(null);
+            boardAnalysisControllerRef.current?.abort();
+            boardAnalysisControllerRef.current = null;
+            dispatch({ type: "GAME_RESET" });
+            randomRef.current = Math.random;
+            setBoardAttributes({});
             setMessages([]);
-            setWinner(null);
-            setWinReason("");
-            setPlayerEliminatedChars(new Set());
             setLastAIAnalysis([]);
-            setIsAIFinalGuess(false);
             setDownloadProgress(null);
+            setIsLoading(false);
         },
-        [],
+        [dispatch],
     );
 
     return {
+        engine,
+        engineState,
+        dispatch,
+        getEventCount,
+        rewind,
         gameState,
-        setGameState,
         activeCharacters,
         playerSecret,
         aiSecret,
         messages,
         addMessage,
+        updateMessage,
+        truncateMessages,
         winner,
-        setWinner,
         winReason,
-        setWinReason,
         isLoading,
         setIsLoading,
+        loadingMessage,
+        boardAttributes,
+        random,
         startGame,
+        resumeGame,
         resetGame,
-        shuffleArray,
     };
 };
@@ -1,17 +1,77 @@
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { type GameEvent } from "../engine";
 import * as builtInAIService from "../services/builtInAIService.ts";
-import { GameState, type Character, type Message } from "../types";
+import {
+    PlayerAssistMode,
+    type AnswerMessageMeta,
+    type Character,
+    type EliminationAnalysisResult,
+    type Message,
+    type PlayerQuestionVerdict,
+    type SavedPlayerState,
+} from "../types";
 
 const FINAL_GUESS_REGEX = /^(?:is it|is the person|is the character|is your? character)\s+(.*?)\??$/i;
 
+/**
+ * A guess the player is preparing. The guess is only resolved once the player confirms it.
+ */
+export type PlayerGuess = {
+    /** The card the player picked, or `null` while they are still choosing. */
+    characterId: string | null;
+    /** The typed text that looked like a guess, so it can still be asked as a normal question instead. */
+    question?: string;
+};
+
+/**
+ * How many of the AI's answers the player disputed this game, and how many of those were overturned.
+ */
+export type DisputeStats = {
+    disputes: number;
+    overturnedDisputes: number;
+};
+
+const EMPTY_DISPUTE_STATS: DisputeStats = { disputes: 0, overturnedDisputes: 0 };
+
+/**
+ * The model's analysis of the player's board for the latest answer, used by the assist mode.
+ * `analysis` is `null` while the model is still looking at the board.
+ */
+type EliminationCheck = {
+    answerId: string;
+    verdict: "yes" | "no";
+    analysis: EliminationAnalysisResult[] | null;
+};
+
+/**
+ * Describes a verdict for the chat, e.g. "Yes" or "that the picture can't tell".
+ */
+const describeVerdict = (verdict: PlayerQuestionVerdict): string => {
+    switch (verdict) {
+        case "yes":
+            return "Yes";
+        case "no":
+            return "No";
+        case "unanswerable":
+            return "that the picture can't tell";
+        case "not_yes_no":
+            return "that it isn't a yes-or-no question";
+    }
+};
+
 type UsePlayerActionsProps = {
     isLoading: boolean;
     setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
+    messages: Message[];
     addMessage: (message: Message) => void;
-    setGameState: React.Dispatch<React.SetStateAction<GameState>>;
-    setWinner: React.Dispatch<React.SetStateAction<"PLAYER" | "AI" | null>>;
-    setWinReason: React.Dispatch<React.SetStateAction<string>>;
+    updateMessage: (id: string, update: (message: Message) => Message) => void;
+    dispatch: (event: GameEvent) => boolean;
+    /** The cards the player has flipped down, from the game engine. */
+    playerEliminatedIds: string[];
     aiSecret: Character | null;
+    assistMode: PlayerAssistMode;
+    /** Whether the player may take back card flips, as set by the undo policy. */
+    isUndoAllowed: boolean;
     activeCharacters: Character[];
 };
 
@@ -20,80 +80,609 @@ type UsePlayerActionsProps = {
  */
 export const usePlayerActions = ({
     setIsLoading,
+    messages,
     addMessage,
-    setGameState,
-    setWinner,
-    setWinReason,
+    updateMessage,
+    dispatch,
+    playerEliminatedIds,
     aiSecret,
+    assistMode,
+    isUndoAllowed,
     activeCharacters,
 }: UsePlayerActionsProps) => {
-    const [playerEliminatedChars, setPlayerEliminatedChars] = useState<Set<string>>(new Set());
+    const playerEliminatedChars = useMemo(() => new Set(playerEliminatedIds), [playerEliminatedIds]);
+    const [pendingGuess, setPendingGuess] = useState<PlayerGuess | null>(null);
+    const [answeredQuestions, setAnsweredQuestions] = useState<builtInAIService.AnsweredQuestion[]>([]);
+    const [disputeStats, setDisputeStats] = useState<DisputeStats>(EMPTY_DISPUTE_STATS);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const disputeControllerRef = useRef<AbortController | null>(null);
+    const explainControllerRef = useRef<AbortController | null>(null);
+    const [eliminationCheck, setEliminationCheck] = useState<EliminationCheck | null>(null);
+    /** A warning about likely elimination mistakes, shown instead of ending the turn. */
+    const [endTurnWarning, setEndTurnWarning] = useState<string | null>(null);
+    const eliminationCheckControllerRef = useRef<AbortController | null>(null);
+    // The cards that were already flipped when the latest answer arrived, to tell which flips it caused.
+    const eliminationBaselineRef = useRef<{ answerId: string; eliminated: Set<string> } | null>(null);
+    /** The cards flipped since the latest answer, most recent last, so the flips can be undone one by one. */
+    const [flipHistory, setFlipHistory] = useState<string[]>([]);
+    /** The player state of a saved game, applied once its secret character is in place. */
+    const pendingRestoreRef = useRef<SavedPlayerState | null>(null);
 
-    const handlePlayerQuestion = useCallback(
+    /**
+     * Aborts the in-flight answer to the player's question, dispute or explanation request, if any.
+     */
+    const cancelPlayerRequests = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        disputeControllerRef.current?.abort();
+        disputeControllerRef.current = null;
+        explainControllerRef.current?.abort();
+        explainControllerRef.current = null;
+        eliminationCheckControllerRef.current?.abort();
+        eliminationCheckControllerRef.current = null;
+    }, []);
+
+    // Make sure no answer arrives after the component using this hook has gone away.
+    useEffect(() => cancelPlayerRequests, [cancelPlayerRequests]);
+
+    // Answers and dispute stats are kept per game, i.e. per secret character, unless a saved game is resumed.
+    useEffect(() => {
+        const restored = pendingRestoreRef.current;
+        pendingRestoreRef.current = null;
+        setAnsweredQuestions(restored?.answeredQuestions ?? []);
+        setDisputeStats(
+            restored
+                ? { disputes: restored.disputes, overturnedDisputes: restored.overturnedDisputes }
+                : EMPTY_DISPUTE_STATS,
+        );
+        setEliminationCheck(null);
+        setEndTurnWarning(null);
+        setFlipHistory([]);
+        eliminationBaselineRef.current = restored?.eliminationBaseline
+            ? {
+                  answerId: restored.eliminationBaseline.answerId,
+                  eliminated: new Set(restored.eliminationBaseline.eliminatedIds),
+              }
+            : null;
+    }, [aiSecret]);
+
+    /**
+     * Returns everything needed to pick up the player's side of the game after a reload.
+     */
+    const getSavedState = useCallback((): SavedPlayerState => {
+        const baseline = eliminationBaselineRef.current;
+        return {
+            answeredQuestions,
+            ...disputeStats,
+            eliminationBaseline: baseline
+                ? { answerId: baseline.answerId, eliminatedIds: [...baseline.eliminated] }
+                : null,
+        };
+    }, [answeredQuestions, disputeStats]);
+
+    /**
+     * Restores the player's side of a saved game. Must be called before the saved board is put in place.
+     * @param saved The saved player state.
+     */
+    const restorePlayerState = useCallback((saved: SavedPlayerState) => {
+        pendingRestoreRef.current = saved;
+    }, []);
+
+    /**
+     * Has the model judge the cards that are still up against the answer, in the background, so the assist mode
+     * can point out elimination mistakes before the player ends their turn.
+     * @param answerId The id of the answer message.
+     * @param question The player's question.
+     * @param verdict The AI's answer.
+     */
+    const startEliminationCheck = useCallback(
+        async (answerId: string, question: string, verdict: "yes" | "no") => {
+            eliminationCheckControllerRef.current?.abort();
+            const controller = new AbortController();
+            eliminationCheckControllerRef.current = controller;
+            setEliminationCheck({ answerId, verdict, analysis: null });
+
+            const upCards = activeCharacters.filter((c) => !playerEliminatedChars.has(c.character_id));
+            try {
+                // The check is not part of the game, so it runs on its own session and leaves the AI's untouched.
+                const analysis = await builtInAIService.getFeatureAnalysis(question, upCards, controller.signal, {
+                    isolated: true,
+                });
+                if (controller.signal.aborted) return;
+                setEliminationCheck({ answerId, verdict, analysis });
+            } catch (error) {
+                if (controller.signal.aborted || builtInAIService.isAbortError(error)) return;
+                // Without an analysis the turn simply ends without a check.
+                console.warn("Could not check the player's board:", error);
+                setEliminationCheck(null);
+            }
+            if (eliminationCheckControllerRef.current === controller) {
+                eliminationCheckControllerRef.current = null;
+            }
+        },
+        [activeCharacters, playerEliminatedChars],
+    );
+
+    /**
+     * Resolves the player's guess by id: a correct guess wins the game, a wrong one loses it.
+     * @param characterId The guessed character.
+     * @param question The text to show as the player's message.
+     */
+    const resolvePlayerGuess = useCallback(
+        (characterId: string, question: string) => {
+            if (!aiSecret) return;
+            const guessed = activeCharacters.find((c) => c.character_id === characterId);
+            if (!guessed) return;
+
+            // Only a guess the engine accepts may be announced, since a wrong one reveals the AI's character.
+            if (!dispatch({ type: "GUESS_MADE", guesser: "PLAYER", characterId })) return;
+            addMessage({ sender: "PLAYER", text: question });
+            if (characterId === aiSecret.character_id) {
+                addMessage({ sender: "AI", text: `Yes, it is ${aiSecret.name}!` });
+            } else {
+                addMessage({ sender: "AI", text: `No, it is not ${guessed.name}.` });
+                addMessage({
+                    sender: "SYSTEM",
+                    text: `You guessed incorrectly! The secret character was ${aiSecret.name}.`,
+                });
+            }
+        },
+        [aiSecret, activeCharacters, addMessage, dispatch],
+    );
+
+    const askQuestion = useCallback(
         async (question: string) => {
             if (!question || !aiSecret) return;
+
+            // A repeated or paraphrased question gets the earlier answer and does not use up the turn.
+            const match = builtInAIService.findSimilarQuestion(answeredQuestions, question);
+            if (match && builtInAIService.isSameQuestion(match)) {
+                const { verdict } = builtInAIService.getAnswerFromMatch(match);
+                addMessage({ sender: "PLAYER", text: question });
+                addMessage({
+                    sender: "AI",
+                    text: `You already asked this ("${match.previous.question}"), so the answer is ${verdict === "yes" ? "Yes" : "No"}.`,
+                });
+                addMessage({ sender: "SYSTEM", text: "Ask something new. It's still your turn." });
+                return;
+            }
+
+            if (!dispatch({ type: "QUESTION_ASKED", asker: "PLAYER", question })) return;
+            cancelPlayerRequests();
+            const controller = new AbortController();
+            abortControllerRef.current = controller;
+            const { signal } = controller;
+
             setIsLoading(true);
             addMessage({ sender: "PLAYER", text: question });
 
-            const handleAsNormalQuestion = async () => {
-                try {
-                    const answer = await builtInAIService.getAnswerToPlayerQuestion(aiSecret, question);
-                    addMessage({ sender: "AI", text: answer });
+            try {
+                const { verdict, reason } = await builtInAIService.getAnswerToPlayerQuestion(
+                    aiSecret,
+                    question,
+                    signal,
+                );
+                if (signal.aborted) return;
+                if (verdict === "yes" || verdict === "no") {
+                    setAnsweredQuestions((prev) => [...prev, { question, answer: { verdict, reason } }]);
+                    const answerId = crypto.randomUUID();
+                    eliminationBaselineRef.current = { answerId, eliminated: new Set(playerEliminatedChars) };
+                    setFlipHistory([]);
+                    addMessage({
+                        sender: "AI",
+                        text: verdict === "yes" ? "Yes" : "No",
+                        id: answerId,
+                        meta: { kind: "answer", question, verdict },
+                    });
+                    if (match && builtInAIService.contradictsMatch(match, { verdict, reason })) {
+                        const previousVerdict = match.previous.answer.verdict;
+                        console.warn("AI answer may contradict an earlier answer:", { question, verdict, match });
+                        addMessage({
+                            sender: "SYSTEM",
+                            text: `Heads up: this answer may contradict the AI's answer to a similar question ("${match.previous.question}": ${previousVerdict === "yes" ? "Yes" : "No"}).`,
+                        });
+                    }
                     addMessage({
                         sender: "SYSTEM",
                         text: `You can now eliminate characters. Click 'End Turn' when ready.`,
                     });
-                    setGameState(GameState.PLAYER_TURN_ELIMINATING);
-                } catch (error) {
-                    console.error(error);
-                    addMessage({ sender: "SYSTEM", text: "Sorry, I had trouble answering. Please try again." });
+                    dispatch({ type: "QUESTION_ANSWERED", answer: verdict });
+                    if (assistMode === PlayerAssistMode.ASSIST) {
+                        startEliminationCheck(answerId, question, verdict);
+                    }
+                } else {
+                    // An invalid question does not use up the player's turn.
+                    const problem =
+                        verdict === "not_yes_no"
+                            ? "That isn't a yes-or-no question."
+                            : "I can't tell that from my character's picture.";
+                    dispatch({ type: "QUESTION_REJECTED" });
+                    addMessage({ sender: "AI", text: reason ? `${problem} ${reason}` : problem });
+                    addMessage({ sender: "SYSTEM", text: "Please rephrase your question. It's still your turn." });
                 }
-            };
+            } catch (error) {
+                if (signal.aborted || builtInAIService.isAbortError(error)) return;
+                console.error(error);
+                dispatch({ type: "QUESTION_REJECTED" });
+                addMessage({ sender: "SYSTEM", text: "Sorry, I had trouble answering. Please try again." });
+            }
 
-            const guessMatch = question.trim().match(FINAL_GUESS_REGEX);
+            if (signal.aborted) return;
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+            }
+            setIsLoading(false);
+        },
+        [
+            aiSecret,
+            answeredQuestions,
+            playerEliminatedChars,
+            assistMode,
+            startEliminationCheck,
+            cancelPlayerRequests,
+            setIsLoading,
+            addMessage,
+            dispatch,
+        ],
+    );
+
+    /**
+     * Sends a typed question. Text that names a character on the board ("Is it Alex?") is not resolved
+     * straight away: it opens the guess flow so the player can confirm the guess first.
+     */
+    const handlePlayerQuestion = useCallback(
+        async (question: string) => {
+            if (!question || !aiSecret) return;
 
+            const guessMatch = question.trim().match(FINAL_GUESS_REGEX);
             if (guessMatch) {
-                const guessedName = guessMatch[1].trim();
-                const isActualGuess = activeCharacters.some(
-                    (char) => char.name.toLowerCase() === guessedName.toLowerCase(),
+                const guessedName = guessMatch[1].trim().toLowerCase();
+                const matches = activeCharacters.filter((char) => char.name.toLowerCase() === guessedName);
+                if (matches.length > 0) {
+                    // Several cards may share a name; the player then has to pick the right one on the board.
+                    setPendingGuess({
+                        characterId: matches.length === 1 ? matches[0].character_id : null,
+                        question,
+                    });
+                    return;
+                }
+            }
+
+            await askQuestion(question);
+        },
+        [aiSecret, activeCharacters, askQuestion],
+    );
+
+    /**
+     * Enters guess mode, in which clicking a card on the player's board selects it as the guess.
+     */
+    const startGuess = useCallback(() => {
+        setPendingGuess({ characterId: null });
+    }, []);
+
+    /**
+     * Leaves guess mode without guessing.
+     */
+    const cancelGuess = useCallback(() => {
+        setPendingGuess(null);
+    }, []);
+
+    /**
+     * Selects a card as the guess. Cards the player has already eliminated cannot be guessed.
+     */
+    const selectGuessCandidate = useCallback(
+        (characterId: string) => {
+            if (playerEliminatedChars.has(characterId)) return;
+            setPendingGuess((prev) => (prev ? { ...prev, characterId } : prev));
+        },
+        [playerEliminatedChars],
+    );
+
+    const confirmGuess = useCallback(() => {
+        if (!pendingGuess?.characterId) return;
+        const guessed = activeCharacters.find((c) => c.character_id === pendingGuess.characterId);
+        setPendingGuess(null);
+        if (guessed) {
+            resolvePlayerGuess(guessed.character_id, pendingGuess.question ?? `Is your character ${guessed.name}?`);
+        }
+    }, [pendingGuess, activeCharacters, resolvePlayerGuess]);
+
+    /**
+     * Sends typed text that looked like a guess as a normal question after all.
+     */
+    const askPendingGuessAsQuestion = useCallback(async () => {
+        const question = pendingGuess?.question;
+        setPendingGuess(null);
+        if (question) await askQuestion(question);
+    }, [pendingGuess, askQuestion]);
+
+    /**
+     * Returns the cards the player flipped after an answer.
+     * @param answerId The id of the answer message.
+     */
+    const getEliminatedIdsForAnswer = useCallback(
+        (answerId: string): string[] => {
+            const baseline = eliminationBaselineRef.current;
+            if (baseline?.answerId === answerId) {
+                return [...playerEliminatedChars].filter((id) => !baseline.eliminated.has(id));
+            }
+            const meta = messages.find((m) => m.id === answerId)?.meta;
+            return meta?.eliminatedIds ?? [];
+        },
+        [messages, playerEliminatedChars],
+    );
+
+    /**
+     * Ends the player's turn without any checks.
+     */
+    const endTurn = useCallback(() => {
+        const baseline = eliminationBaselineRef.current;
+        if (baseline) {
+            const eliminatedIds = getEliminatedIdsForAnswer(baseline.answerId);
+            updateMessage(baseline.answerId, (m) => (m.meta ? { ...m, meta: { ...m.meta, eliminatedIds } } : m));
+            eliminationBaselineRef.current = null;
+        }
+        eliminationCheckControllerRef.current?.abort();
+        eliminationCheckControllerRef.current = null;
+        setEliminationCheck(null);
+        setEndTurnWarning(null);
+        setFlipHistory([]);
+        addMessage({ sender: "SYSTEM", text: "AI is thinking of a question..." });
+        dispatch({ type: "TURN_ENDED" });
+    }, [getEliminatedIdsForAnswer, updateMessage, addMessage, dispatch]);
+
+    /**
+     * Ends the player's turn. In assist mode, likely elimination mistakes are pointed out first; if the board
+     * has not been checked yet, the turn ends without a warning rather than keeping the player waiting.
+     */
+    const handleEndTurn = useCallback(() => {
+        const baseline = eliminationBaselineRef.current;
+        if (
+            assistMode === PlayerAssistMode.ASSIST &&
+            eliminationCheck?.analysis &&
+            eliminationCheck.answerId === baseline?.answerId
+        ) {
+            const { wronglyFlipped, missed } = builtInAIService.findEliminationMistakes(
+                eliminationCheck.analysis,
+                eliminationCheck.verdict,
+                playerEliminatedChars,
+            );
+            if (wronglyFlipped.length > 0 || missed.length > 0) {
+                const namesOf = (ids: string[]) =>
+                    activeCharacters
+                        .filter((c) => ids.includes(c.character_id))
+                        .map((c) => c.name)
+                        .join(", ");
+                const problems = [
+                    wronglyFlipped.length > 0 ? `you flipped ${namesOf(wronglyFlipped)}, who should stay` : "",
+                    missed.length > 0 ? `${namesOf(missed)} should probably go` : "",
+                ].filter(Boolean);
+                setEndTurnWarning(`Check your board: ${problems.join(", and ")}.`);
+                return;
+            }
+        }
+        endTurn();
+    }, [assistMode, eliminationCheck, playerEliminatedChars, activeCharacters, endTurn]);
+
+    const dismissEndTurnWarning = useCallback(() => {
+        setEndTurnWarning(null);
+    }, []);
+
+    /**
+     * Re-evaluates one of the AI's answers that the player believes is wrong, and annotates the answer with
+     * the outcome.
+     * @param answerId The id of the disputed answer message.
+     */
+    const handleDisputeAnswer = useCallback(
+        async (answerId: string) => {
+            const meta = messages.find((m) => m.id === answerId)?.meta;
+            if (!aiSecret || !meta || meta.dispute) return;
+
+            const setDispute = (dispute: AnswerMessageMeta["dispute"]) =>
+                updateMessage(answerId, (m) => (m.meta ? { ...m, meta: { ...m.meta, dispute } } : m));
+
+            disputeControllerRef.current?.abort();
+            const controller = new AbortController();
+            disputeControllerRef.current = controller;
+            setIsLoading(true);
+            setDispute({ status: "pending" });
+            addMessage({ sender: "PLAYER", text: `I dispute the answer to "${meta.question}".` });
+
+            try {
+                const result = await builtInAIService.reevaluatePlayerQuestion(
+                    aiSecret,
+                    meta.question,
+                    meta.verdict,
+                    controller.signal,
                 );
+                if (controller.signal.aborted) return;
 
-                if (isActualGuess) {
-                    if (guessedName.toLowerCase() === aiSecret.name.toLowerCase()) {
-                        addMessage({ sender: "AI", text: `Yes, it is ${aiSecret.name}!` });
-                        setWinner("PLAYER");
-                        setWinReason(`You correctly guessed the character was ${aiSecret.name}.`);
-                        setGameState(GameState.GAME_OVER);
-                    } else {
-                        addMessage({ sender: "AI", text: `No, it is not ${guessedName}.` });
+                const isOverturned = result.verdict !== meta.verdict;
+                if (isOverturned) {
+                    // An explanation of the old verdict no longer applies; the player can ask again.
+                    updateMessage(answerId, (m) =>
+                        m.meta?.explanation?.status === "ready"
+                            ? { ...m, meta: { ...m.meta, explanation: undefined } }
+                            : m,
+                    );
+                }
+                setDispute({
+                    status: isOverturned ? "overturned" : "upheld",
+                    verdict: result.verdict,
+                    reasoning: result.reasoning,
+                });
+                setDisputeStats((prev) => ({
+                    disputes: prev.disputes + 1,
+                    overturnedDisputes: prev.overturnedDisputes + (isOverturned ? 1 : 0),
+                }));
+
+                if (isOverturned) {
+                    // The assist mode must check the board against the corrected answer.
+                    setEliminationCheck((prev) => {
+                        if (prev?.answerId !== answerId) return prev;
+                        return result.verdict === "yes" || result.verdict === "no"
+                            ? { ...prev, verdict: result.verdict }
+                            : null;
+                    });
+                    // Later repeats of the question must get the corrected answer.
+                    setAnsweredQuestions((prev) =>
+                        prev.flatMap((entry) => {
+                            if (entry.question !== meta.question) return [entry];
+                            if (result.verdict !== "yes" && result.verdict !== "no") return [];
+                            return [{ ...entry, answer: { verdict: result.verdict, reason: result.reasoning } }];
+                        }),
+                    );
+                    const canRestore = getEliminatedIdsForAnswer(answerId).length > 0;
+                    addMessage({
+                        sender: "AI",
+                        text: `You're right. On a closer look, the answer to "${meta.question}" is ${describeVerdict(result.verdict)}. ${result.reasoning}`,
+                    });
+                    if (canRestore) {
                         addMessage({
                             sender: "SYSTEM",
-                            text: `You guessed incorrectly! The secret character was ${aiSecret.name}.`,
+                            text: "You can restore the cards you flipped because of the old answer.",
                         });
-                        setWinner("AI");
-                        setWinReason(`You guessed incorrectly. The secret character was ${aiSecret.name}.`);
-                        setGameState(GameState.GAME_OVER);
                     }
                 } else {
-                    await handleAsNormalQuestion();
+                    addMessage({
+                        sender: "AI",
+                        text: `I checked again and I stand by my answer to "${meta.question}". ${result.reasoning}`,
+                    });
                 }
-            } else {
-                await handleAsNormalQuestion();
+            } catch (error) {
+                if (controller.signal.aborted || builtInAIService.isAbortError(error)) return;
+                console.error(error);
+                setDispute(undefined);
+                addMessage({
+                    sender: "SYSTEM",
+                    text: "Sorry, the AI could not re-check that answer. Please try again.",
+                });
+            }
+
+            if (disputeControllerRef.current === controller) {
+                disputeControllerRef.current = null;
             }
             setIsLoading(false);
         },
-        [aiSecret, activeCharacters, setIsLoading, addMessage, setGameState, setWinner, setWinReason],
+        [aiSecret, messages, getEliminatedIdsForAnswer, updateMessage, setIsLoading, addMessage],
     );
 
-    const handleEndTurn = useCallback(() => {
-        addMessage({ sender: "SYSTEM", text: "AI is thinking of a question..." });
-        setGameState(GameState.AI_TURN);
-    }, [addMessage, setGameState]);
+    /**
+     * Un-flips the cards the player eliminated because of an answer that was overturned.
+     * @param answerId The id of the overturned answer message.
+     */
+    const handleRestoreDisputedCards = useCallback(
+        (answerId: string) => {
+            const ids = new Set(getEliminatedIdsForAnswer(answerId));
+            dispatch({ type: "CARDS_FLIPPED", side: "PLAYER", ids: [...ids], down: false });
+            updateMessage(answerId, (m) =>
+                m.meta?.dispute && m.meta.dispute.status !== "pending"
+                    ? { ...m, meta: { ...m.meta, dispute: { ...m.meta.dispute, restored: true } } }
+                    : m,
+            );
+            const names = activeCharacters.filter((c) => ids.has(c.character_id)).map((c) => c.name);
+            addMessage({
+                sender: "SYSTEM",
+                text: names.length > 0 ? `Restored: ${names.join(", ")}.` : "There were no cards to restore.",
+            });
+        },
+        [getEliminatedIdsForAnswer, updateMessage, activeCharacters, addMessage, dispatch],
+    );
+
+    /**
+     * Flips one of the player's cards down, or back up. Flips made after an answer can be undone until the turn
+     * ends.
+     * @param id The id of the card.
+     */
+    const handleToggleCard = useCallback(
+        (id: string) => {
+            if (!dispatch({ type: "CARDS_FLIPPED", side: "PLAYER", ids: [id], down: !playerEliminatedChars.has(id) })) {
+                return;
+            }
+            if (eliminationBaselineRef.current) setFlipHistory((prev) => [...prev, id]);
+        },
+        [playerEliminatedChars, dispatch],
+    );
+
+    /**
+     * Takes back the player's latest card flip.
+     */
+    const handleUndoFlip = useCallback(() => {
+        if (!isUndoAllowed) return;
+        const id = flipHistory[flipHistory.length - 1];
+        if (id === undefined) return;
+        if (!dispatch({ type: "CARDS_FLIPPED", side: "PLAYER", ids: [id], down: !playerEliminatedChars.has(id) })) {
+            return;
+        }
+        setFlipHistory((prev) => prev.slice(0, -1));
+    }, [isUndoAllowed, flipHistory, playerEliminatedChars, dispatch]);
+
+    /**
+     * Asks the AI to explain one of its answers. The explanation is attached to the answer and does not use up
+     * the player's turn.
+     * @param answerId The id of the answer message.
+     */
+    const handleExplainAnswer = useCallback(
+        async (answerId: string) => {
+            const meta = messages.find((m) => m.id === answerId)?.meta;
+            if (!aiSecret || !meta || meta.explanation) return;
+
+            const setExplanation = (explanation: AnswerMessageMeta["explanation"]) =>
+                updateMessage(answerId, (m) => (m.meta ? { ...m, meta: { ...m.meta, explanation } } : m));
+
+            explainControllerRef.current?.abort();
+            const controller = new AbortController();
+            explainControllerRef.current = controller;
+            setExplanation({ status: "pending" });
+
+            try {
+                // After an overturned dispute, the corrected verdict is the one that stands.
+                const verdict = meta.dispute?.status === "overturned" ? meta.dispute.verdict : meta.verdict;
+                const text = await builtInAIService.explainPlayerAnswer(
+                    aiSecret,
+                    meta.question,
+                    verdict,
+                    controller.signal,
+                );
+                if (controller.signal.aborted) return;
+                setExplanation({ status: "ready", text });
+            } catch (error) {
+                // Whatever stopped the request, the player can ask again.
+                setExplanation(undefined);
+                if (controller.signal.aborted || builtInAIService.isAbortError(error)) return;
+                console.error(error);
+                addMessage({ sender: "SYSTEM", text: "Sorry, the AI could not explain that answer." });
+            }
+
+            if (explainControllerRef.current === controller) {
+                explainControllerRef.current = null;
+            }
+        },
+        [aiSecret, messages, updateMessage, addMessage],
+    );
 
     return {
         playerEliminatedChars,
-        setPlayerEliminatedChars,
+        handleToggleCard,
+        handleUndoFlip,
+        canUndoFlip: isUndoAllowed && flipHistory.length > 0,
+        getSavedState,
+        restorePlayerState,
         handlePlayerQuestion,
         handleEndTurn,
+        endTurn,
+        endTurnWarning,
+        dismissEndTurnWarning,
+        cancelPlayerRequests,
+        handleDisputeAnswer,
+        handleRestoreDisputedCards,
+        handleExplainAnswer,
+        disputeStats,
+        pendingGuess,
+        startGuess,
+        cancelGuess,
+        selectGuessCandidate,
+        confirmGuess,
+        askPendingGuessAsQuestion,
     };
 };
@@ -1,4 +1,4 @@
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import * as builtInAIService from "../services/builtInAIService.ts";
 
 type UseSpeechToTextOptions = {
@@ -10,6 +10,21 @@ export const useSpeechToText = ({ onTranscription, onStateChange }: UseSpeechToT
     const [isRecording, setIsRecording] = useState(false);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
     const audioChunksRef = useRef<Blob[]>([]);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Cancel any pending transcription and release the microphone when the component unmounts.
+    useEffect(() => {
+        return () => {
+            abortControllerRef.current?.abort();
+            const recorder = mediaRecorderRef.current;
+            if (recorder && recorder.state === "recording") {
+                // Detach the handler so stopping does not kick off a transcription nobody will see.
+                recorder.onstop = null;
+                recorder.stop();
+                recorder.stream.getTracks().forEach((track) => track.stop());
+            }
+        };
+    }, []);
 
     const stopRecording = useCallback(() => {
         if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
@@ -37,15 +52,21 @@ export const useSpeechToText = ({ onTranscription, onStateChange }: UseSpeechToT
             };
 
             recorder.onstop = async () => {
+                const controller = new AbortController();
+                abortControllerRef.current = controller;
+                const { signal } = controller;
+
                 setIsRecording(false);
                 onStateChange?.("transcribing");
                 const audioBlob = new Blob(audioChunksRef.current, { type: "audio/webm" });
 
                 try {
-                    const transcribedText = await builtInAIService.transcribeAudio(audioBlob);
+                    const transcribedText = await builtInAIService.transcribeAudio(audioBlob, signal);
+                    if (signal.aborted) return;
                     onTranscription(transcribedText);
                     onStateChange?.("idle");
                 } catch (error) {
+                    if (signal.aborted || builtInAIService.isAbortError(error)) return;
                     console.error("Transcription error:", error);
                     onStateChange?.("error", "Failed to transcribe audio.");
                 } finally {
@@ -0,0 +1,226 @@
+/**
+ * @file A per-game memory of the AI's answers about its own secret character.
+ * Questions are reduced to a polarity and a set of content words, so a repeated or reworded question about the same
+ * feature gets the same answer. Related questions ("a red hat" and "a hat") are about different features and never
+ * share an answer, but their answers are compared, so a fresh answer that disagrees with an earlier one can be flagged.
+ */
+import { type PlayerQuestionAnswer } from "../../types";
+import { normalizeQuestion } from "./validation";
+
+/** Content-word overlap (0-1) from which two questions are treated as the same question: all words must match. */
+const SAME_QUESTION_SIMILARITY = 1;
+
+/** Content-word overlap (0-1) from which two questions are related enough to compare their answers. */
+const RELATED_QUESTION_SIMILARITY = 0.5;
+
+/** Words that carry no meaning for comparing questions about the secret character. */
+const STOP_WORDS = new Set([
+    "a",
+    "an",
+    "the",
+    "is",
+    "isn",
+    "are",
+    "aren",
+    "does",
+    "doesn",
+    "do",
+    "don",
+    "has",
+    "hasn",
+    "have",
+    "haven",
+    "your",
+    "you",
+    "character",
+    "person",
+    "they",
+    "he",
+    "she",
+    "them",
+    "their",
+    "his",
+    "her",
+    "it",
+    "any",
+    "some",
+    "on",
+    "of",
+    "with",
+    "in",
+    "wear",
+    "wearing",
+    "got",
+]);
+
+/** Words that flip the meaning of a question. */
+const NEGATIONS = new Set(["not", "no", "without", "never"]);
+
+/** What is left of "n't" once the apostrophe is stripped, e.g. "isn't" becomes "isn t". */
+const CONTRACTED_NOT = "t";
+
+/** Spelling variants and synonyms mapped to one canonical word. */
+const SYNONYMS: Record<string, string> = {
+    grey: "gray",
+    blond: "blonde",
+    spectacles: "glasses",
+    eyeglasses: "glasses",
+    sunglasses: "glasses",
+    cap: "hat",
+    beanie: "hat",
+    male: "man",
+    guy: "man",
+    female: "woman",
+    girl: "woman",
+    lady: "woman",
+};
+
+/**
+ * An answer the AI has already given about its secret character.
+ */
+export type AnsweredQuestion = {
+    question: string;
+    answer: PlayerQuestionAnswer;
+};
+
+/**
+ * How a new question relates to one that has already been answered.
+ */
+export type AnswerMatch = {
+    previous: AnsweredQuestion;
+    /** Content-word overlap between the two questions (0-1). */
+    similarity: number;
+    /** Whether one question is the negation of the other ("Is it a man?" / "Is it not a man?"). */
+    isNegated: boolean;
+    /** Whether the new question itself is negated. */
+    isQuestionNegated: boolean;
+    /**
+     * How the new question's feature relates to the earlier one's: the same feature, a narrower one ("a red hat"
+     * after "a hat"), a broader one ("a hat" after "a red hat"), or merely an overlapping one.
+     */
+    scope: "same" | "narrower" | "broader" | "overlapping";
+};
+
+type QuestionSignature = { words: Set<string>; negated: boolean };
+
+/**
+ * Reduces a question to its content words and polarity.
+ * @param question The question to analyze.
+ */
+function getSignature(question: string): QuestionSignature {
+    const words = new Set<string>();
+    let negations = 0;
+    const tokens = normalizeQuestion(question).split(" ");
+    tokens.forEach((raw, index) => {
+        if (!raw) return;
+        // "Isn't she wearing a hat?" asks the same as "Is she wearing a hat?": a contraction on the opening
+        // auxiliary only frames the question. Anywhere else it negates, like "not".
+        if (raw === CONTRACTED_NOT) {
+            if (index !== 1) negations++;
+            return;
+        }
+        if (NEGATIONS.has(raw)) {
+            negations++;
+            return;
+        }
+        if (STOP_WORDS.has(raw)) return;
+        // A crude singular form is enough to match "earrings" with "earring".
+        const singular = raw.length > 3 && raw.endsWith("s") && !raw.endsWith("ss") ? raw.slice(0, -1) : raw;
+        words.add(SYNONYMS[raw] ?? SYNONYMS[singular] ?? singular);
+    });
+    return { words, negated: negations % 2 === 1 };
+}
+
+/**
+ * Computes the Jaccard similarity of two word sets.
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    a.forEach((word) => {
+        if (b.has(word)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Checks whether every word of one set is in another.
+ */
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+    return [...a].every((word) => b.has(word));
+}
+
+/**
+ * Finds the earlier question that is most similar to a new one.
+ * @param answered The questions answered so far this game.
+ * @param question The new question.
+ * @returns The best match above the related-question threshold, or `null`.
+ */
+export function findSimilarQuestion(answered: AnsweredQuestion[], question: string): AnswerMatch | null {
+    const signature = getSignature(question);
+    let best: AnswerMatch | null = null;
+    // Newest first, so the latest answer wins among equally similar questions.
+    for (const previous of [...answered].reverse()) {
+        const other = getSignature(previous.question);
+        const score = similarity(signature.words, other.words);
+        if (score >= RELATED_QUESTION_SIMILARITY && (!best || score > best.similarity)) {
+            const isNarrower = isSubset(other.words, signature.words);
+            const isBroader = isSubset(signature.words, other.words);
+            best = {
+                previous,
+                similarity: score,
+                isNegated: signature.negated !== other.negated,
+                isQuestionNegated: signature.negated,
+                scope:
+                    isNarrower && isBroader ? "same" : isNarrower ? "narrower" : isBroader ? "broader" : "overlapping",
+            };
+        }
+    }
+    return best;
+}
+
+/**
+ * Checks whether a match is close enough to reuse the earlier answer instead of asking the model again.
+ */
+export function isSameQuestion(match: AnswerMatch): boolean {
+    return match.similarity >= SAME_QUESTION_SIMILARITY;
+}
+
+/**
+ * Derives the answer to a new question from a matching earlier one, flipping it for a negated question.
+ * @param match A match for which `isSameQuestion` is true.
+ * @returns The answer to give.
+ */
+export function getAnswerFromMatch(match: AnswerMatch): PlayerQuestionAnswer {
+    const { answer } = match.previous;
+    if (!match.isNegated || (answer.verdict !== "yes" && answer.verdict !== "no")) return answer;
+    return { ...answer, verdict: answer.verdict === "yes" ? "no" : "yes" };
+}
+
+/**
+ * Checks whether a fresh answer disagrees with the answer to a related earlier question.
+ * Answers about the same feature must agree. A narrower feature cannot be present when the broader one is absent
+ * (no hat, yet a red hat), and the broader one cannot be absent when the narrower one is present. Merely overlapping
+ * features can both be present or absent, so their answers never contradict each other.
+ * @param match The related earlier question.
+ * @param answer The fresh answer.
+ */
+export function contradictsMatch(match: AnswerMatch, answer: PlayerQuestionAnswer): boolean {
+    const previous = match.previous.answer.verdict;
+    if ((answer.verdict !== "yes" && answer.verdict !== "no") || (previous !== "yes" && previous !== "no")) {
+        return false;
+    }
+    // Whether each answer says the character has the feature, whatever the question's wording.
+    const hasFeature = (answer.verdict === "yes") !== match.isQuestionNegated;
+    const hadFeature = (previous === "yes") !== (match.isQuestionNegated !== match.isNegated);
+    switch (match.scope) {
+        case "same":
+            return hasFeature !== hadFeature;
+        case "narrower":
+            return hasFeature && !hadFeature;
+        case "broader":
+            return !hasFeature && hadFeature;
+        case "overlapping":
+            return false;
+    }
+}
@@ -1,53 +1,76 @@
 /**
  * @file Contains the core functions for interacting with the AI model for game logic.
  */
-import { type AIQuestionAndAnalysis, type Character, type Message } from "../../types";
-import { getAIQuestionAndAnalysisPrompt, getAnswerToPlayerQuestionPrompt, getSystemPrompt } from "../prompts";
-import { getSession } from "./session";
+import {
+    type AIQuestionAndAnalysis,
+    type BoardAttributes,
+    type Character,
+    type EliminationAnalysisResult,
+    type Message,
+    type PlayerQuestionAnswer,
+    type PlayerQuestionVerdict,
+} from "../../types";
+import {
+    getAIQuestionAndAnalysisPrompt,
+    getAnswerToPlayerQuestionPrompt,
+    getFeatureAnalysisPrompt,
+    getPhraseQuestionPrompt,
+    getSystemPrompt,
+} from "../prompts";
+import { hasCompleteAttributes } from "./attributes";
+import { redactIdentity } from "./explain";
+import { type FeatureSpec } from "./planner";
+import { getProvider } from "./provider";
 import { promiseWithTimeout } from "./timeout";
+import { type PromptContent, type PromptMessage, type PromptOptions } from "./types";
+import {
+    AIResponseValidationError,
+    describeValidationIssues,
+    isYesNoQuestion,
+    validateAnalysis,
+    validateQuestion,
+    validateQuestionAndAnalysis,
+} from "./validation";
 
 const GENERAL_PROMPT_TIMEOUT_MS = 30000;
 
 /**
  * Transcribes an audio blob into a single-sentence question using the AI model.
  * @param audioBlob The audio data to transcribe.
+ * @param signal An optional signal that cancels the request.
  * @returns A promise that resolves to the transcribed text.
  */
-export async function transcribeAudio(audioBlob: Blob): Promise<string> {
-    const session = await getSession();
-    const prompt = [
-        {
-            role: "user",
-            content: [
-                { type: "text", value: "Transcribe the following audio into a short, one-sentence question." },
-                { type: "audio", value: audioBlob },
-            ],
-        },
-    ];
-    const result = await promiseWithTimeout(session.prompt(prompt), GENERAL_PROMPT_TIMEOUT_MS);
-
-    if (typeof result !== "string") {
-        console.error("Transcription result is not a string:", result);
-        throw new Error("AI transcription failed to return a valid text response.");
-    }
-
+export async function transcribeAudio(audioBlob: Blob, signal?: AbortSignal): Promise<string> {
+    const result = await promiseWithTimeout(
+        (taskSignal) => getProvider().transcribe(audioBlob, { signal: taskSignal }),
+        GENERAL_PROMPT_TIMEOUT_MS,
+        signal,
+    );
     return result.trim().replace(/"/g, "");
 }
 
+const PLAYER_QUESTION_VERDICTS: PlayerQuestionVerdict[] = ["yes", "no", "unanswerable", "not_yes_no"];
+
 /**
- * Gets a "Yes" or "No" answer from the AI for a player's question about a secret character.
+ * Gets the AI's answer to a player's question about a secret character.
+ * Besides "yes" and "no", the AI can say that the question cannot be answered from the picture or is not a
+ * yes/no question, so the player can rephrase instead of being misled.
  * @param character The AI's secret character.
  * @param question The player's question.
- * @returns A promise that resolves to "Yes" or "No".
+ * @param signal An optional signal that cancels the request.
+ * @returns A promise that resolves to the verdict and a short reason, with the character's name redacted.
  */
-export async function getAnswerToPlayerQuestion(character: Character, question: string): Promise<string> {
-    const session = await getSession();
+export async function getAnswerToPlayerQuestion(
+    character: Character,
+    question: string,
+    signal?: AbortSignal,
+): Promise<PlayerQuestionAnswer> {
     if (!character.imageBlob) {
         throw new Error(`Image blob for ${character.name} is missing.`);
     }
 
-    const promptText = getAnswerToPlayerQuestionPrompt(character, question);
-    const prompt = [
+    const promptText = getAnswerToPlayerQuestionPrompt(question);
+    const prompt: PromptMessage[] = [
         {
             role: "user",
             content: [
@@ -57,18 +80,164 @@ export async function getAnswerToPlayerQuestion(character: Character, question:
         },
     ];
 
-    const schema = { type: "boolean" };
+    const schema = {
+        type: "object",
+        properties: {
+            verdict: { type: "string", enum: PLAYER_QUESTION_VERDICTS },
+            reason: { type: "string", description: "One short sentence explaining the verdict." },
+        },
+        required: ["verdict", "reason"],
+    };
+    const result = await promiseWithTimeout(
+        (taskSignal) => getProvider().prompt(prompt, { responseConstraint: schema, signal: taskSignal }),
+        GENERAL_PROMPT_TIMEOUT_MS,
+        signal,
+    );
+
+    const parsed = parseJSONResponse(result) as Partial<PlayerQuestionAnswer> | undefined;
+    if (!parsed || !PLAYER_QUESTION_VERDICTS.includes(parsed.verdict as PlayerQuestionVerdict)) {
+        throw new Error("AI returned an invalid answer to the player's question.");
+    }
+    // The reason is shown to the player as is, so it must not give the character away.
+    const reason = typeof parsed.reason === "string" ? redactIdentity(parsed.reason.trim(), character.name) : "";
+    return { verdict: parsed.verdict!, reason };
+}
+
+/**
+ * Builds the JSON schema for a list of per-character analysis entries.
+ * @param characters The characters that must be analyzed; their ids are the only allowed values.
+ */
+function getAnalysisArraySchema(characters: Character[]) {
+    return {
+        type: "array",
+        items: {
+            type: "object",
+            properties: {
+                id: { type: "string", enum: characters.map((c) => c.character_id) },
+                name: { type: "string" },
+                has_feature: {
+                    type: "boolean",
+                    description: "Does this character have the feature asked about in the question?",
+                },
+                reasoning: {
+                    type: "string",
+                    description: "A brief justification for the has_feature value.",
+                },
+            },
+            required: ["id", "name", "has_feature", "reasoning"],
+        },
+    };
+}
+
+/**
+ * Parses a JSON response from the model.
+ * @param result The raw text response.
+ * @returns The parsed value, or `undefined` if the text is not valid JSON.
+ */
+function parseJSONResponse(result: string): unknown {
+    try {
+        return JSON.parse(result);
+    } catch {
+        console.error("AI response is not valid JSON:", result);
+        return undefined;
+    }
+}
+
+/**
+ * Analyzes a specific set of characters against an already chosen yes/no question.
+ * Used to repair an analysis that skipped some characters without regenerating the whole turn.
+ * @param question The yes/no question to verify.
+ * @param characters The characters to analyze.
+ * @param signal An optional signal that cancels the request.
+ * @param options.isolated Whether to run on a separate session, for checks that must neither see nor add to the
+ * game's conversation.
+ * @returns A promise that resolves to the validated analysis entries (which may still be incomplete).
+ */
+export async function getFeatureAnalysis(
+    question: string,
+    characters: Character[],
+    signal?: AbortSignal,
+    { isolated = false }: Pick<PromptOptions, "isolated"> = {},
+): Promise<EliminationAnalysisResult[]> {
+    const userContent: PromptContent[] = [{ type: "text", value: getFeatureAnalysisPrompt(question, characters) }];
+    for (const char of characters) {
+        if (char.imageBlob) {
+            userContent.push({ type: "image", value: char.imageBlob });
+        }
+    }
+
+    const schema = {
+        type: "object",
+        properties: { analysis: getAnalysisArraySchema(characters) },
+        required: ["analysis"],
+    };
+
     const result = await promiseWithTimeout(
-        session.prompt(prompt, { responseConstraint: schema }),
+        (taskSignal) =>
+            getProvider().prompt([{ role: "user", content: userContent }], {
+                responseConstraint: schema,
+                signal: taskSignal,
+                isolated,
+            }),
         GENERAL_PROMPT_TIMEOUT_MS,
+        signal,
     );
 
-    if (typeof result !== "string") {
-        console.error("Player question answer is not a string:", result);
-        throw new Error("AI failed to return a valid response for the player's question.");
+    const parsed = parseJSONResponse(result) as { analysis?: unknown } | undefined;
+    return validateAnalysis(parsed?.analysis, characters).analysis;
+}
+
+/**
+ * Asks the model to phrase a natural question about a feature chosen by the planner.
+ * Falls back to the feature's ready-made question if the model fails or produces something unusable.
+ * @param feature The feature to ask about.
+ * @param askedQuestions Questions the AI has already asked this game.
+ * @param signal An optional signal that cancels the request.
+ * @returns A promise that resolves to a yes/no question.
+ * @throws {AIResponseValidationError} If the ready-made question has already been asked as well.
+ */
+export async function phraseFeatureQuestion(
+    feature: FeatureSpec,
+    askedQuestions: string[],
+    signal?: AbortSignal,
+): Promise<string> {
+    const schema = {
+        type: "object",
+        properties: { question: { type: "string", description: "A short yes/no question about the feature." } },
+        required: ["question"],
+    };
+
+    try {
+        const result = await promiseWithTimeout(
+            (taskSignal) =>
+                getProvider().prompt(
+                    [
+                        {
+                            role: "user",
+                            content: [{ type: "text", value: getPhraseQuestionPrompt(feature.description) }],
+                        },
+                    ],
+                    { responseConstraint: schema, signal: taskSignal },
+                ),
+            GENERAL_PROMPT_TIMEOUT_MS,
+            signal,
+        );
+        const question = (parseJSONResponse(result) as { question?: unknown } | undefined)?.question;
+        if (validateQuestion(question, askedQuestions).length === 0) {
+            return (question as string).trim();
+        }
+        console.warn("AI phrased an unusable question, using the template instead:", question);
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn("AI failed to phrase the planned question, using the template instead:", error);
     }
 
-    return JSON.parse(result) ? "Yes" : "No";
+    const questionProblems = validateQuestion(feature.question, askedQuestions);
+    if (questionProblems.length > 0) {
+        const issues = { missingIds: [], unknownIds: [], duplicateIds: [], questionProblems };
+        throw new AIResponseValidationError(describeValidationIssues(issues), feature.question, issues, feature.key);
+    }
+    return feature.question;
 }
 
 /**
@@ -76,19 +245,28 @@ export async function getAnswerToPlayerQuestion(character: Character, question:
  * This ensures consistency between the question asked and the characters to be eliminated.
  * @param characters The list of remaining possible characters.
  * @param messages The conversation history.
- * @param retryReason An optional reason explaining why a previous attempt failed.
- * @param lastFailedQuestion The specific question that failed previously.
+ * @param options Optional turn context:
+ * - `retryReason`: why a previous attempt failed.
+ * - `lastFailedQuestion`: the specific question that failed previously.
+ * - `attributes`: the precomputed board attributes. If every character is covered, the model reasons over
+ *   the attribute matrix instead of re-reading all images, which is much faster.
+ * - `signal`: cancels the request.
  * @returns A promise that resolves to an object containing the AI's question and its analysis.
+ * @throws {AIResponseValidationError} If the response is unusable and could not be repaired.
  */
 export async function getAIQuestionAndAnalysis(
     characters: Character[],
     messages: Message[],
-    retryReason?: string,
-    lastFailedQuestion?: string,
+    options: {
+        retryReason?: string;
+        lastFailedQuestion?: string;
+        attributes?: BoardAttributes;
+        signal?: AbortSignal;
+    } = {},
 ): Promise<AIQuestionAndAnalysis> {
-    const session = await getSession();
-
-    const prompt: any[] = [];
+    const { retryReason, lastFailedQuestion, signal } = options;
+    const attributes = hasCompleteAttributes(characters, options.attributes) ? options.attributes : undefined;
+    const prompt: PromptMessage[] = [];
 
     // Convert the game's message log into a structured history for the AI model.
     messages
@@ -101,13 +279,15 @@ export async function getAIQuestionAndAnalysis(
         });
 
     const systemPrompt = getSystemPrompt();
-    const turnPrompt = getAIQuestionAndAnalysisPrompt(characters, retryReason, lastFailedQuestion);
-    const userContent: any[] = [{ type: "text", value: `${systemPrompt}\n\n${turnPrompt}` }];
+    const turnPrompt = getAIQuestionAndAnalysisPrompt(characters, retryReason, lastFailedQuestion, attributes);
+    const userContent: PromptContent[] = [{ type: "text", value: `${systemPrompt}\n\n${turnPrompt}` }];
 
-    // Add all remaining character images for analysis.
-    for (const char of characters) {
-        if (char.imageBlob) {
-            userContent.push({ type: "image", value: char.imageBlob });
+    // Add all remaining character images for analysis, unless the attribute matrix already describes them.
+    if (!attributes) {
+        for (const char of characters) {
+            if (char.imageBlob) {
+                userContent.push({ type: "image", value: char.imageBlob });
+            }
         }
     }
     prompt.push({ role: "user", content: userContent });
@@ -119,41 +299,51 @@ export async function getAIQuestionAndAnalysis(
                 type: "string",
                 description: "The best yes/no question to ask based on the analysis.",
             },
-            analysis: {
-                type: "array",
-                items: {
-                    type: "object",
-                    properties: {
-                        id: { type: "string" },
-                        name: { type: "string" },
-                        has_feature: {
-                            type: "boolean",
-                            description: "Does this character have the feature asked about in the question?",
-                        },
-                        reasoning: {
-                            type: "string",
-                            description: "A brief justification for the has_feature value.",
-                        },
-                    },
-                    required: ["id", "name", "has_feature", "reasoning"],
-                },
-            },
+            analysis: getAnalysisArraySchema(characters),
         },
         required: ["question", "analysis"],
     };
 
     const result = await promiseWithTimeout(
-        session.prompt(prompt, { responseConstraint: schema }),
+        (taskSignal) => getProvider().prompt(prompt, { responseConstraint: schema, signal: taskSignal }),
         GENERAL_PROMPT_TIMEOUT_MS,
+        signal,
     );
 
-    if (typeof result !== "string") {
-        console.error("AI question/analysis result is not a string:", result);
-        throw new Error("AI failed to return a valid JSON response for its turn.");
-    }
+    const parsed = parseJSONResponse(result);
 
     // Developer-facing log for easier debugging
-    console.log("%c[DEBUG] AI Question & Draft Analysis:", "color: #f59e0b; font-weight: bold;", JSON.parse(result));
+    console.log("%c[DEBUG] AI Question & Draft Analysis:", "color: #f59e0b; font-weight: bold;", parsed);
+
+    const askedQuestions = messages
+        .filter((msg) => msg.sender === "AI" && isYesNoQuestion(msg.text))
+        .map((m) => m.text);
+    const report = validateQuestionAndAnalysis(parsed, characters, askedQuestions);
+
+    // A bad question cannot be repaired: the whole turn has to be regenerated.
+    if (report.issues.questionProblems.length > 0) {
+        throw new AIResponseValidationError(describeValidationIssues(report.issues), report.question, report.issues);
+    }
+
+    // Targeted repair: only ask about the characters the model skipped (or contradicted itself on).
+    if (report.issues.missingIds.length > 0) {
+        console.warn("AI analysis is incomplete, re-examining:", report.issues);
+        const missingIds = new Set(report.issues.missingIds);
+        const missingChars = characters.filter((c) => missingIds.has(c.character_id));
+        const repaired = await getFeatureAnalysis(report.question, missingChars, signal);
+
+        const byId = new Map([...report.analysis, ...repaired].map((entry) => [entry.id, entry]));
+        const stillMissing = characters.filter((c) => !byId.has(c.character_id)).map((c) => c.character_id);
+        if (stillMissing.length > 0) {
+            const issues = { ...report.issues, missingIds: stillMissing };
+            throw new AIResponseValidationError(describeValidationIssues(issues), report.question, issues);
+        }
+
+        return {
+            question: report.question,
+            analysis: characters.map((c) => byId.get(c.character_id)!),
+        };
+    }
 
-    return JSON.parse(result);
+    return { question: report.question, analysis: report.analysis };
 }
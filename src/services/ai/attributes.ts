@@ -0,0 +1,182 @@
+/**
+ * @file Pre-game board analysis: extracts a structured attribute vector for every character once,
+ * caches it in IndexedDB and makes it available to every AI turn.
+ */
+import { type BoardAttributes, type Character, type CharacterAttributes } from "../../types";
+import * as dbService from "../dbService";
+import { getCharacterAttributesPrompt } from "../prompts";
+import { getProvider } from "./provider";
+import { promiseWithTimeout } from "./timeout";
+
+const ATTRIBUTE_PROMPT_TIMEOUT_MS = 30000;
+
+/** The allowed values for every categorical attribute. */
+export const CATEGORICAL_ATTRIBUTES = {
+    apparent_gender: ["man", "woman", "unclear"],
+    hair_color: ["black", "brown", "blonde", "red", "gray", "white", "none", "other"],
+    hair_length: ["bald", "short", "medium", "long"],
+    facial_hair: ["none", "mustache", "beard", "stubble"],
+    background_color: ["white", "gray", "black", "blue", "green", "red", "yellow", "other"],
+} as const satisfies Partial<Record<keyof CharacterAttributes, readonly string[]>>;
+
+/** The yes/no attributes. */
+export const BOOLEAN_ATTRIBUTES = ["glasses", "hat", "earrings", "smiling"] as const satisfies ReadonlyArray<
+    keyof CharacterAttributes
+>;
+
+/** The accessories the model may list. */
+export const ACCESSORIES = ["necklace", "scarf", "tie", "headphones", "piercing", "watch", "bag"] as const;
+
+const ATTRIBUTE_SCHEMA = {
+    type: "object",
+    properties: {
+        apparent_gender: { type: "string", enum: CATEGORICAL_ATTRIBUTES.apparent_gender },
+        hair_color: { type: "string", enum: CATEGORICAL_ATTRIBUTES.hair_color },
+        hair_length: { type: "string", enum: CATEGORICAL_ATTRIBUTES.hair_length },
+        facial_hair: { type: "string", enum: CATEGORICAL_ATTRIBUTES.facial_hair },
+        glasses: { type: "boolean", description: "Is the person wearing glasses or sunglasses?" },
+        hat: { type: "boolean", description: "Is the person wearing a hat, cap or other headwear?" },
+        earrings: { type: "boolean", description: "Is the person wearing visible earrings?" },
+        smiling: { type: "boolean", description: "Is the person visibly smiling?" },
+        accessories: { type: "array", items: { type: "string", enum: ACCESSORIES } },
+        background_color: { type: "string", enum: CATEGORICAL_ATTRIBUTES.background_color },
+    },
+    required: [
+        "apparent_gender",
+        "hair_color",
+        "hair_length",
+        "facial_hair",
+        "glasses",
+        "hat",
+        "earrings",
+        "smiling",
+        "accessories",
+        "background_color",
+    ],
+};
+
+/**
+ * Checks that a parsed response is a complete attribute vector with only allowed values.
+ * @param value The parsed response.
+ * @returns The attributes, or `null` if the response cannot be trusted.
+ */
+function parseAttributes(value: unknown): CharacterAttributes | null {
+    if (!value || typeof value !== "object") return null;
+    const raw = value as Record<string, unknown>;
+
+    for (const [key, allowed] of Object.entries(CATEGORICAL_ATTRIBUTES)) {
+        if (!(allowed as readonly unknown[]).includes(raw[key])) return null;
+    }
+    for (const key of BOOLEAN_ATTRIBUTES) {
+        if (typeof raw[key] !== "boolean") return null;
+    }
+    const accessories = Array.isArray(raw.accessories)
+        ? [...new Set(raw.accessories.filter((item): item is string => ACCESSORIES.includes(item)))]
+        : [];
+
+    return { ...(raw as CharacterAttributes), accessories };
+}
+
+/**
+ * Asks the model for the attribute vector of a single character.
+ * @param character The character to analyze.
+ * @param signal An optional signal that cancels the request.
+ * @returns A promise that resolves to the character's attributes.
+ */
+export async function getCharacterAttributes(character: Character, signal?: AbortSignal): Promise<CharacterAttributes> {
+    if (!character.imageBlob) {
+        throw new Error(`Image blob for ${character.name} is missing.`);
+    }
+
+    const result = await promiseWithTimeout(
+        (taskSignal) =>
+            getProvider().prompt(
+                [
+                    {
+                        role: "user",
+                        content: [
+                            { type: "image", value: character.imageBlob! },
+                            { type: "text", value: getCharacterAttributesPrompt() },
+                        ],
+                    },
+                ],
+                // Runs on its own session, so the images do not pile up in the game's conversation.
+                { responseConstraint: ATTRIBUTE_SCHEMA, signal: taskSignal, isolated: true },
+            ),
+        ATTRIBUTE_PROMPT_TIMEOUT_MS,
+        signal,
+    );
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(result);
+    } catch {
+        parsed = undefined;
+    }
+    const attributes = parseAttributes(parsed);
+    if (!attributes) {
+        console.error(`Invalid attribute analysis for ${character.name}:`, result);
+        throw new Error(`AI returned an invalid attribute analysis for ${character.name}.`);
+    }
+    return attributes;
+}
+
+/**
+ * Produces the attribute matrix for a board, using the IndexedDB cache where possible and analyzing only
+ * the characters that have not been seen before. Characters that fail analysis are left out, so callers
+ * must be prepared for an incomplete matrix.
+ * @param characters The characters on the board.
+ * @param options Optional progress callback and abort signal.
+ * @returns A promise that resolves to the attributes keyed by character id.
+ */
+export async function analyzeBoard(
+    characters: Character[],
+    options: { onProgress?: (analyzed: number, total: number) => void; signal?: AbortSignal } = {},
+): Promise<BoardAttributes> {
+    const { onProgress, signal } = options;
+
+    let attributes: BoardAttributes = {};
+    try {
+        attributes = await dbService.loadCharacterAttributes(characters.map((c) => c.character_id));
+    } catch (error) {
+        console.warn("Could not read cached board analysis:", error);
+    }
+
+    const missing = characters.filter((c) => !attributes[c.character_id]);
+    const fresh: BoardAttributes = {};
+    let analyzed = characters.length - missing.length;
+    onProgress?.(analyzed, characters.length);
+
+    for (const character of missing) {
+        try {
+            fresh[character.character_id] = await getCharacterAttributes(character, signal);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn(`Board analysis failed for ${character.name}:`, error);
+        }
+        analyzed++;
+        onProgress?.(analyzed, characters.length);
+    }
+
+    if (Object.keys(fresh).length > 0) {
+        try {
+            await dbService.saveCharacterAttributes(fresh);
+        } catch (error) {
+            console.warn("Could not cache board analysis:", error);
+        }
+    }
+
+    // Developer-facing log for easier debugging
+    console.log("%c[DEBUG] Board Attributes:", "color: #f59e0b; font-weight: bold;", { ...attributes, ...fresh });
+
+    return { ...attributes, ...fresh };
+}
+
+/**
+ * Checks whether every given character has an attribute vector.
+ * @param characters The characters to check.
+ * @param attributes The board's attribute matrix.
+ */
+export function hasCompleteAttributes(characters: Character[], attributes?: BoardAttributes): boolean {
+    return !!attributes && characters.length > 0 && characters.every((c) => !!attributes[c.character_id]);
+}
@@ -0,0 +1,85 @@
+/**
+ * @file Checks the AI's questions against the player's real card: after the game, to show where the AI's vision
+ * or the player's answers went wrong, and during the game, to catch an answer that does not match the card.
+ */
+import { type AITurnRecord, type BoardAttributes, type Character, type GameAuditEntry } from "../../types";
+import { contradictsMatch, findSimilarQuestion, type AnsweredQuestion } from "./answerCache";
+import { FEATURE_CATALOG } from "./planner";
+
+/**
+ * Looks up whether a character has a planned feature according to the pre-game board analysis.
+ * @param featureKey The planned feature, if any.
+ * @param character The character to check.
+ * @param attributes The board's attribute matrix.
+ * @returns The verdict, or `null` if the question was not about a planned feature or the character was not analyzed.
+ */
+export function getExpectedVerdict(
+    featureKey: string | null,
+    character: Character,
+    attributes: BoardAttributes,
+): boolean | null {
+    const feature = featureKey ? FEATURE_CATALOG.find((f) => f.key === featureKey) : undefined;
+    const characterAttributes = attributes[character.character_id];
+    if (!feature || !characterAttributes) return null;
+    return feature.holds(characterAttributes);
+}
+
+/**
+ * Checks the player's answer to one of the AI's questions against their own card before it is submitted.
+ * The board analysis is trusted over the AI's verdict for this turn, since it does not depend on the phrasing.
+ * @param turn The AI's question, its planned feature and its analysis.
+ * @param secret The player's secret character.
+ * @param attributes The board's attribute matrix.
+ * @param answer The answer the player is about to give.
+ * @returns A warning to show the player, or `null` if the answer looks right.
+ */
+export function checkAnswerAgainstCard(
+    turn: Pick<AITurnRecord, "question" | "featureKey" | "analysis">,
+    secret: Character,
+    attributes: BoardAttributes,
+    answer: "Yes" | "No",
+): string | null {
+    const hasFeature = answer === "Yes";
+    const expected = getExpectedVerdict(turn.featureKey, secret, attributes);
+    if (expected !== null) {
+        return expected === hasFeature
+            ? null
+            : `The board analysis says ${secret.name} ${expected ? "matches" : "does not match"} "${turn.question}", so "${answer}" may be a mis-click.`;
+    }
+
+    const aiVerdict = turn.analysis.find((entry) => entry.id === secret.character_id)?.has_feature;
+    if (aiVerdict === undefined || aiVerdict === hasFeature) return null;
+    return `The AI thinks the answer for ${secret.name} is "${aiVerdict ? "Yes" : "No"}". Answering "${answer}" will make it rule out your card.`;
+}
+
+/**
+ * Builds the post-game report of the AI's questions.
+ * @param history The AI's question turns, oldest first.
+ * @param secret The player's secret character.
+ * @param attributes The board's attribute matrix.
+ * @returns One entry per question.
+ */
+export function auditGame(history: AITurnRecord[], secret: Character, attributes: BoardAttributes): GameAuditEntry[] {
+    const answered: AnsweredQuestion[] = [];
+    return history.map((turn) => {
+        const hasFeature = turn.answer === "Yes";
+        const aiVerdict = turn.analysis.find((entry) => entry.id === secret.character_id)?.has_feature ?? null;
+        const expectedVerdict = getExpectedVerdict(turn.featureKey, secret, attributes);
+
+        const answer = { verdict: hasFeature ? "yes" : "no", reason: "" } as const;
+        const match = findSimilarQuestion(answered, turn.question);
+        const contradictsEarlierAnswer = !!match && contradictsMatch(match, answer);
+        answered.push({ question: turn.question, answer });
+
+        return {
+            question: turn.question,
+            answer: turn.answer,
+            aiVerdict,
+            expectedVerdict,
+            isVisionError: expectedVerdict !== null && aiVerdict !== null && aiVerdict !== expectedVerdict,
+            isAnswerError: expectedVerdict !== null && hasFeature !== expectedVerdict,
+            isDisagreement: expectedVerdict === null && aiVerdict !== null && aiVerdict !== hasFeature,
+            contradictsEarlierAnswer,
+        };
+    });
+}
@@ -0,0 +1,96 @@
+/**
+ * @file Probabilistic belief tracking for the AI's board.
+ * Instead of removing characters on a single verdict, the AI keeps a probability per character that is updated
+ * from every answer with a simple error model. A card is only flipped once its probability falls far below the
+ * most likely candidate, so one bad vision pass can be outweighed by later answers.
+ */
+import { type Character, type CharacterBeliefs, type EliminationAnalysisResult } from "../../types";
+
+/** The assumed chance that a single, unverified verdict is wrong. */
+export const DEFAULT_ANALYSIS_ERROR_RATE = 0.05;
+
+/** Bounds for the error rate derived from a voted verdict's confidence. */
+const MIN_ERROR_RATE = 0.02;
+const MAX_ERROR_RATE = 0.45;
+
+/**
+ * A character is considered eliminated once its probability is below this fraction of the most likely
+ * candidate's probability.
+ */
+export const BELIEF_ELIMINATION_RATIO = 0.1;
+
+/**
+ * Creates a uniform prior over the given characters.
+ * @param characters The characters on the board.
+ * @returns The initial beliefs.
+ */
+export function createUniformBeliefs(characters: Character[]): CharacterBeliefs {
+    return Object.fromEntries(characters.map((c) => [c.character_id, 1 / characters.length]));
+}
+
+/**
+ * Estimates how likely a verdict is to be wrong.
+ * @param entry The analysis entry.
+ * @returns The error rate, between `MIN_ERROR_RATE` and `MAX_ERROR_RATE`.
+ */
+function getErrorRate(entry: EliminationAnalysisResult): number {
+    if (entry.confidence === undefined) return DEFAULT_ANALYSIS_ERROR_RATE;
+    return Math.min(MAX_ERROR_RATE, Math.max(MIN_ERROR_RATE, 1 - entry.confidence));
+}
+
+/**
+ * Applies Bayes' rule for one answer.
+ * Characters without a verdict in the analysis are treated as uninformative.
+ * @param beliefs The current beliefs.
+ * @param analysis The AI's verdicts for the question that was answered.
+ * @param answer The player's answer.
+ * @returns The updated, normalized beliefs.
+ */
+export function updateBeliefs(
+    beliefs: CharacterBeliefs,
+    analysis: EliminationAnalysisResult[],
+    answer: "Yes" | "No",
+): CharacterBeliefs {
+    const verdicts = new Map(analysis.map((entry) => [entry.id, entry]));
+    const updated: CharacterBeliefs = {};
+    let total = 0;
+
+    for (const [id, prior] of Object.entries(beliefs)) {
+        const entry = verdicts.get(id);
+        let likelihood = 0.5;
+        if (entry) {
+            const errorRate = getErrorRate(entry);
+            likelihood = entry.has_feature === (answer === "Yes") ? 1 - errorRate : errorRate;
+        }
+        updated[id] = prior * likelihood;
+        total += updated[id];
+    }
+
+    if (total === 0) return beliefs;
+    for (const id of Object.keys(updated)) {
+        updated[id] /= total;
+    }
+    return updated;
+}
+
+/**
+ * Returns the characters the AI still considers plausible. Never empty while `characters` is not.
+ * @param characters The characters on the board.
+ * @param beliefs The current beliefs.
+ */
+export function getPlausibleCandidates(characters: Character[], beliefs: CharacterBeliefs): Character[] {
+    const highest = Math.max(0, ...characters.map((c) => beliefs[c.character_id] ?? 0));
+    return characters.filter((c) => (beliefs[c.character_id] ?? 0) >= highest * BELIEF_ELIMINATION_RATIO);
+}
+
+/**
+ * Returns the most likely candidate, preferring the earlier character on ties.
+ * @param characters The candidates to choose from.
+ * @param beliefs The current beliefs.
+ */
+export function getMostLikelyCandidate(characters: Character[], beliefs: CharacterBeliefs): Character | null {
+    return characters.reduce<Character | null>(
+        (best, c) => (!best || (beliefs[c.character_id] ?? 0) > (beliefs[best.character_id] ?? 0) ? c : best),
+        null,
+    );
+}
@@ -0,0 +1,114 @@
+/**
+ * @file Consistency checking and backtracking for the AI's board.
+ * The AI keeps every (question, answer, verdicts) fact of the game. When no plausible candidate agrees with all
+ * of them, some verdict must have been wrong: every character that contradicts a fact is looked at again against
+ * all facts, its verdicts corrected, and the beliefs rebuilt from the corrected facts.
+ */
+import { type AIFact, type Character, type CharacterBeliefs } from "../../types";
+import { getFeatureAnalysis } from "./api";
+import { createUniformBeliefs, getPlausibleCandidates, updateBeliefs } from "./beliefs";
+
+/**
+ * A verdict that was changed after re-examining a character.
+ */
+export type VerdictCorrection = {
+    characterId: string;
+    characterName: string;
+    question: string;
+    answer: "Yes" | "No";
+    /** The corrected verdict: whether the character has the feature. */
+    hasFeature: boolean;
+};
+
+/**
+ * Finds the facts a character contradicts, i.e. where its verdict disagrees with the player's answer.
+ * Facts without a verdict for the character are ignored.
+ * @param characterId The character to check.
+ * @param facts The facts gathered so far.
+ * @returns The contradicting facts.
+ */
+export function getContradictingFacts(characterId: string, facts: AIFact[]): AIFact[] {
+    return facts.filter((fact) => {
+        const entry = fact.analysis.find((e) => e.id === characterId);
+        return !!entry && entry.has_feature !== (fact.answer === "Yes");
+    });
+}
+
+/**
+ * Checks whether the AI's board contradicts its facts: every plausible candidate disagrees with at least one
+ * answer, so the player's secret must have been misjudged somewhere.
+ * @param candidates The characters the AI still considers plausible.
+ * @param facts The facts gathered so far.
+ */
+export function hasContradiction(candidates: Character[], facts: AIFact[]): boolean {
+    return candidates.every((c) => getContradictingFacts(c.character_id, facts).length > 0);
+}
+
+/**
+ * Replays all facts from a uniform prior.
+ * @param characters The characters on the board.
+ * @param facts The facts gathered so far.
+ * @returns The resulting beliefs.
+ */
+export function rebuildBeliefs(characters: Character[], facts: AIFact[]): CharacterBeliefs {
+    return facts.reduce(
+        (beliefs, fact) => updateBeliefs(beliefs, fact.analysis, fact.answer),
+        createUniformBeliefs(characters),
+    );
+}
+
+/**
+ * Re-examines the eliminated characters, i.e. those that contradict any fact, against every fact and corrects the
+ * verdicts that do not hold up. A verdict that agreed with an answer may have been just as wrong, so all of them are
+ * checked. The characters are looked at together, in one prompt per fact.
+ * @param characters The characters on the board.
+ * @param facts The facts gathered so far.
+ * @param signal An optional signal that cancels the re-examination.
+ * @returns The corrected facts, the resulting beliefs and candidates, and the corrections that were made.
+ */
+export async function backtrack(
+    characters: Character[],
+    facts: AIFact[],
+    signal?: AbortSignal,
+): Promise<{
+    facts: AIFact[];
+    beliefs: CharacterBeliefs;
+    candidates: Character[];
+    corrections: VerdictCorrection[];
+}> {
+    const corrected = facts.map((fact) => ({ ...fact, analysis: [...fact.analysis] }));
+    const corrections: VerdictCorrection[] = [];
+
+    const eliminated = characters.filter((c) => getContradictingFacts(c.character_id, facts).length > 0);
+
+    for (const fact of corrected) {
+        const toCheck = eliminated.filter((c) => fact.analysis.some((e) => e.id === c.character_id));
+        if (toCheck.length === 0) continue;
+
+        let rechecks;
+        try {
+            rechecks = await getFeatureAnalysis(fact.question, toCheck, signal);
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.warn(`Could not re-examine the board for "${fact.question}":`, error);
+            continue;
+        }
+
+        for (const recheck of rechecks) {
+            const index = fact.analysis.findIndex((e) => e.id === recheck.id);
+            if (index === -1 || recheck.has_feature === fact.analysis[index].has_feature) continue;
+
+            fact.analysis[index] = { ...recheck, confidence: undefined };
+            corrections.push({
+                characterId: recheck.id,
+                characterName: toCheck.find((c) => c.character_id === recheck.id)?.name ?? recheck.name,
+                question: fact.question,
+                answer: fact.answer,
+                hasFeature: recheck.has_feature,
+            });
+        }
+    }
+
+    const beliefs = rebuildBeliefs(characters, corrected);
+    return { facts: corrected, beliefs, candidates: getPlausibleCandidates(characters, beliefs), corrections };
+}
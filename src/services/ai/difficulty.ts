@@ -0,0 +1,133 @@
+/**
+ * @file Difficulty levels for the AI opponent.
+ * Each level is a strategy profile rather than a different prompt: weaker levels deliberately pick worse
+ * splits and occasionally eliminate the wrong character, stronger levels verify their verdicts by voting and
+ * take calculated early guesses.
+ */
+import { AIDifficulty } from "../../types";
+import { type PlannedQuestion } from "./planner";
+import { DEFAULT_VOTING_PASSES } from "./voting";
+
+/**
+ * The behaviour of the AI at a given difficulty.
+ */
+export type DifficultyProfile = {
+    label: string;
+    description: string;
+    /** The chance (0-1) that the AI asks one of the weaker planned questions instead of the best one. */
+    suboptimalQuestionRate: number;
+    /** The chance (0-1) that the AI wrongly eliminates one extra character after an answer. */
+    misEliminationRate: number;
+    /**
+     * The minimum number of voting passes used to verify each analysis. Together with the analysis itself the
+     * votes must be odd in number, or a single disagreeing pass only ties and changes nothing.
+     */
+    votingPasses: number;
+    /** Whether verdicts taken from the pre-game board analysis are re-checked against the images. */
+    verifyPlannedVerdicts: boolean;
+    /** The AI guesses once its most likely candidate holds at least this share (0-1) of its belief. */
+    guessConfidence: number;
+    /**
+     * The largest number of remaining candidates at which the AI guesses instead of asking, provided the player
+     * is at least as close to winning. Zero disables early guesses.
+     */
+    earlyGuessCandidates: number;
+};
+
+export const DEFAULT_DIFFICULTY = AIDifficulty.NORMAL;
+
+export const DIFFICULTY_PROFILES: Record<AIDifficulty, DifficultyProfile> = {
+    [AIDifficulty.EASY]: {
+        label: "Easy",
+        description: "Often asks weak questions and sometimes knocks down the wrong card.",
+        suboptimalQuestionRate: 0.7,
+        misEliminationRate: 0.15,
+        votingPasses: 0,
+        verifyPlannedVerdicts: false,
+        guessConfidence: 1,
+        earlyGuessCandidates: 0,
+    },
+    [AIDifficulty.NORMAL]: {
+        label: "Normal",
+        description: "Usually asks good questions, but not always the best one.",
+        suboptimalQuestionRate: 0.2,
+        misEliminationRate: 0,
+        votingPasses: 0,
+        verifyPlannedVerdicts: true,
+        guessConfidence: 0.9,
+        earlyGuessCandidates: 0,
+    },
+    [AIDifficulty.HARD]: {
+        label: "Hard",
+        description: "Always asks the most informative question and double-checks its verdicts.",
+        suboptimalQuestionRate: 0,
+        misEliminationRate: 0,
+        votingPasses: DEFAULT_VOTING_PASSES,
+        verifyPlannedVerdicts: true,
+        guessConfidence: 0.85,
+        earlyGuessCandidates: 0,
+    },
+    [AIDifficulty.EXPERT]: {
+        label: "Expert",
+        description: "Plays like Hard, verifies everything by majority vote and guesses early when you are close.",
+        suboptimalQuestionRate: 0,
+        misEliminationRate: 0,
+        votingPasses: DEFAULT_VOTING_PASSES,
+        verifyPlannedVerdicts: true,
+        guessConfidence: 0.8,
+        earlyGuessCandidates: 2,
+    },
+};
+
+/**
+ * Checks whether a stored value is a known difficulty.
+ * @param value The value to check.
+ */
+export function isAIDifficulty(value: unknown): value is AIDifficulty {
+    return Object.values(AIDifficulty).includes(value as AIDifficulty);
+}
+
+/**
+ * Picks the question to ask from the planner's ranking, according to the difficulty.
+ * @param ranked The planned questions, best first.
+ * @param profile The difficulty profile.
+ * @param random A source of random numbers in [0, 1).
+ * @returns The chosen question, or `null` if the ranking is empty.
+ */
+export function choosePlannedQuestion(
+    ranked: PlannedQuestion[],
+    profile: DifficultyProfile,
+    random: () => number = Math.random,
+): PlannedQuestion | null {
+    if (ranked.length === 0) return null;
+    const weaker = ranked.slice(1);
+    if (weaker.length === 0 || random() >= profile.suboptimalQuestionRate) return ranked[0];
+    return weaker[Math.floor(random() * weaker.length)];
+}
+
+/**
+ * Decides whether the AI should guess now instead of asking another question.
+ * @param aiCandidates The number of characters the AI has not eliminated.
+ * @param playerCandidates The number of characters the player has not eliminated.
+ * @param profile The difficulty profile.
+ */
+export function shouldGuessEarly(aiCandidates: number, playerCandidates: number, profile: DifficultyProfile): boolean {
+    return aiCandidates > 1 && aiCandidates <= profile.earlyGuessCandidates && playerCandidates <= aiCandidates;
+}
+
+/**
+ * Occasionally picks one extra character to eliminate by mistake, according to the difficulty.
+ * The last remaining candidate is never taken.
+ * @param survivorIds The ids of the characters that correctly survive the answer.
+ * @param profile The difficulty profile.
+ * @param random A source of random numbers in [0, 1).
+ * @returns The id of the character to eliminate by mistake, or `null`.
+ */
+export function pickMisElimination(
+    survivorIds: string[],
+    profile: DifficultyProfile,
+    random: () => number = Math.random,
+): string | null {
+    if (survivorIds.length < 2 || random() >= profile.misEliminationRate) return null;
+    return survivorIds[Math.floor(random() * survivorIds.length)];
+}
@@ -0,0 +1,109 @@
+/**
+ * @file Careful re-evaluation of an answer the player disputes.
+ * The question is looked at again in several independent passes with a prompt that asks the model to describe
+ * what it sees before deciding, and the verdicts are settled by majority vote.
+ */
+import { type Character, type PlayerQuestionVerdict } from "../../types";
+import { getDisputePrompt } from "../prompts";
+import { redactIdentity } from "./explain";
+import { getProvider } from "./provider";
+import { promiseWithTimeout } from "./timeout";
+
+/** The number of independent passes made for a dispute. */
+export const DISPUTE_PASSES = 3;
+
+const DISPUTE_PROMPT_TIMEOUT_MS = 30000;
+
+const VERDICTS: PlayerQuestionVerdict[] = ["yes", "no", "unanswerable", "not_yes_no"];
+
+const DISPUTE_SCHEMA = {
+    type: "object",
+    properties: {
+        observation: { type: "string" },
+        verdict: { type: "string", enum: VERDICTS },
+        reasoning: { type: "string" },
+    },
+    required: ["observation", "verdict", "reasoning"],
+};
+
+export type DisputeResult = {
+    verdict: PlayerQuestionVerdict;
+    /** The reasoning of a pass that agrees with the verdict. */
+    reasoning: string;
+    /** The share of passes (0-1) that agree with the verdict. */
+    agreement: number;
+};
+
+/**
+ * Re-evaluates a disputed answer about the AI's secret character.
+ * Ties between verdicts are settled in favour of the original verdict.
+ * @param character The AI's secret character.
+ * @param question The disputed question.
+ * @param previousVerdict The verdict the AI gave originally.
+ * @param signal An optional signal that cancels the re-evaluation.
+ * @returns A promise that resolves to the settled verdict.
+ */
+export async function reevaluatePlayerQuestion(
+    character: Character,
+    question: string,
+    previousVerdict: PlayerQuestionVerdict,
+    signal?: AbortSignal,
+): Promise<DisputeResult> {
+    if (!character.imageBlob) {
+        throw new Error(`Image blob for ${character.name} is missing.`);
+    }
+
+    const passes: { verdict: PlayerQuestionVerdict; reasoning: string }[] = [];
+    for (let pass = 0; pass < DISPUTE_PASSES; pass++) {
+        try {
+            const result = await promiseWithTimeout(
+                (taskSignal) =>
+                    getProvider().prompt(
+                        [
+                            {
+                                role: "user",
+                                content: [
+                                    { type: "image", value: character.imageBlob! },
+                                    { type: "text", value: getDisputePrompt(question, previousVerdict) },
+                                ],
+                            },
+                        ],
+                        // Each pass runs on its own session, so it sees neither the original answer nor the other passes.
+                        { responseConstraint: DISPUTE_SCHEMA, signal: taskSignal, isolated: true },
+                    ),
+                DISPUTE_PROMPT_TIMEOUT_MS,
+                signal,
+            );
+            const parsed = JSON.parse(result) as { verdict?: unknown; reasoning?: unknown };
+            if (!VERDICTS.includes(parsed.verdict as PlayerQuestionVerdict)) continue;
+            const reasoning = typeof parsed.reasoning === "string" ? parsed.reasoning : "";
+            // The reasoning is shown to the player as is, so it must not give the character away.
+            passes.push({
+                verdict: parsed.verdict as PlayerQuestionVerdict,
+                reasoning: redactIdentity(reasoning, character.name),
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            // A failed pass is simply not counted.
+            console.warn(`Dispute pass ${pass + 1} failed:`, error);
+        }
+    }
+
+    if (passes.length === 0) {
+        throw new Error("The AI could not re-evaluate the disputed answer.");
+    }
+
+    const counts = new Map<PlayerQuestionVerdict, number>();
+    passes.forEach((p) => counts.set(p.verdict, (counts.get(p.verdict) ?? 0) + 1));
+    const highest = Math.max(...counts.values());
+    const verdict =
+        counts.get(previousVerdict) === highest
+            ? previousVerdict
+            : passes.find((p) => counts.get(p.verdict) === highest)!.verdict;
+
+    return {
+        verdict,
+        reasoning: passes.find((p) => p.verdict === verdict)!.reasoning,
+        agreement: highest / passes.length,
+    };
+}
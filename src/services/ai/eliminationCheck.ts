@@ -0,0 +1,34 @@
+/**
+ * @file Checks the player's eliminations against the model's analysis of their board, for the assist mode.
+ */
+import { type EliminationAnalysisResult } from "../../types";
+
+export type EliminationMistakes = {
+    /** Cards the player flipped although they are consistent with the answer. */
+    wronglyFlipped: string[];
+    /** Cards still up although they are not consistent with the answer. */
+    missed: string[];
+};
+
+/**
+ * Compares the player's board with the model's verdicts for the question that was just answered.
+ * Only cards the model judged are checked, and cards flipped before the answer are left alone.
+ * @param analysis The model's verdict for every card that was still up when the answer arrived.
+ * @param verdict The AI's answer to the player's question.
+ * @param eliminated The cards the player has flipped now.
+ * @returns The likely mistakes; both lists are empty if the board is consistent with the answer.
+ */
+export function findEliminationMistakes(
+    analysis: EliminationAnalysisResult[],
+    verdict: "yes" | "no",
+    eliminated: Set<string>,
+): EliminationMistakes {
+    const mistakes: EliminationMistakes = { wronglyFlipped: [], missed: [] };
+    for (const entry of analysis) {
+        const shouldStay = entry.has_feature === (verdict === "yes");
+        const isFlipped = eliminated.has(entry.id);
+        if (shouldStay && isFlipped) mistakes.wronglyFlipped.push(entry.id);
+        if (!shouldStay && !isFlipped) mistakes.missed.push(entry.id);
+    }
+    return mistakes;
+}
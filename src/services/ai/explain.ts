@@ -0,0 +1,87 @@
+/**
+ * @file On-demand explanations of the AI's answers about its secret character.
+ * The model never sees the character's name when explaining, and any name that still shows up in the
+ * explanation is redacted, so asking "why?" cannot give the character away.
+ */
+import { type Character, type PlayerQuestionVerdict } from "../../types";
+import { getExplainAnswerPrompt } from "../prompts";
+import { getProvider } from "./provider";
+import { promiseWithTimeout } from "./timeout";
+
+const EXPLAIN_PROMPT_TIMEOUT_MS = 30000;
+
+const EXPLANATION_SCHEMA = {
+    type: "object",
+    properties: {
+        region: { type: "string", description: "The part of the picture the question is about, e.g. 'hair'." },
+        explanation: { type: "string", description: "One or two sentences describing only that part." },
+    },
+    required: ["region", "explanation"],
+};
+
+/**
+ * Escapes a string for use inside a regular expression.
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces the character's name, and each part of it, with a neutral reference.
+ * @param text The text to redact.
+ * @param name The character's name.
+ * @returns The redacted text.
+ */
+export function redactIdentity(text: string, name: string): string {
+    const parts = [name, ...name.split(/\s+/)].map((part) => part.trim()).filter((part) => part.length >= 2);
+    return parts.reduce(
+        (redacted, part) => redacted.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, "gi"), "my character"),
+        text,
+    );
+}
+
+/**
+ * Explains an answer the AI gave about its secret character, describing only the relevant region of the
+ * picture.
+ * @param character The AI's secret character.
+ * @param question The player's question.
+ * @param verdict The verdict the AI gave.
+ * @param signal An optional signal that cancels the request.
+ * @returns A promise that resolves to the redacted explanation.
+ */
+export async function explainPlayerAnswer(
+    character: Character,
+    question: string,
+    verdict: PlayerQuestionVerdict,
+    signal?: AbortSignal,
+): Promise<string> {
+    if (!character.imageBlob) {
+        throw new Error(`Image blob for ${character.name} is missing.`);
+    }
+
+    const result = await promiseWithTimeout(
+        (taskSignal) =>
+            getProvider().prompt(
+                [
+                    {
+                        role: "user",
+                        content: [
+                            { type: "image", value: character.imageBlob! },
+                            { type: "text", value: getExplainAnswerPrompt(question, verdict) },
+                        ],
+                    },
+                ],
+                // A separate session keeps the explanation out of the game's conversation.
+                { responseConstraint: EXPLANATION_SCHEMA, signal: taskSignal, isolated: true },
+            ),
+        EXPLAIN_PROMPT_TIMEOUT_MS,
+        signal,
+    );
+
+    const parsed = JSON.parse(result) as { region?: unknown; explanation?: unknown };
+    if (typeof parsed.explanation !== "string" || parsed.explanation.trim() === "") {
+        throw new Error("AI returned an empty explanation.");
+    }
+    const region = typeof parsed.region === "string" && parsed.region.trim() ? `${parsed.region.trim()}: ` : "";
+    return redactIdentity(`${region}${parsed.explanation.trim()}`, character.name);
+}
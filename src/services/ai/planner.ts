@@ -0,0 +1,253 @@
+/**
+ * @file A deterministic question planner for the AI opponent.
+ * Given the precomputed attribute matrix, it scores every candidate yes/no feature by how well it splits the
+ * AI's remaining candidates and picks the best one. The model is then only needed to phrase the question
+ * and to double-check the verdicts.
+ */
+import {
+    type BoardAttributes,
+    type Character,
+    type CharacterAttributes,
+    type EliminationAnalysisResult,
+} from "../../types";
+import { ACCESSORIES, BOOLEAN_ATTRIBUTES, CATEGORICAL_ATTRIBUTES } from "./attributes";
+
+/**
+ * A yes/no feature the planner can ask about.
+ */
+export type FeatureSpec = {
+    /** A stable identifier, e.g. `hair_color=blonde`. */
+    key: string;
+    /** A short description used when asking the model to phrase the question, e.g. "has blonde hair". */
+    description: string;
+    /** A ready-made question, used if the model cannot phrase one. */
+    question: string;
+    /** Whether a character with the given attributes has the feature. */
+    holds: (attributes: CharacterAttributes) => boolean;
+};
+
+/**
+ * A feature together with how it would split the remaining candidates.
+ */
+export type PlannedQuestion = {
+    feature: FeatureSpec;
+    /** The ids of the candidates that have the feature. */
+    yesIds: string[];
+    /** The ids of the candidates that do not have the feature. */
+    noIds: string[];
+    /** The number of candidates the answer is expected to eliminate, assuming each is equally likely. */
+    expectedEliminations: number;
+    /** The information gained from the answer, in bits. */
+    entropy: number;
+};
+
+const BOOLEAN_QUESTIONS: Record<(typeof BOOLEAN_ATTRIBUTES)[number], [string, string]> = {
+    glasses: ["is wearing glasses", "Is your character wearing glasses?"],
+    hat: ["is wearing a hat", "Is your character wearing a hat?"],
+    earrings: ["is wearing earrings", "Is your character wearing earrings?"],
+    smiling: ["is smiling", "Is your character smiling?"],
+};
+
+const ACCESSORY_QUESTIONS: Record<(typeof ACCESSORIES)[number], [string, string]> = {
+    necklace: ["is wearing a necklace", "Is your character wearing a necklace?"],
+    scarf: ["is wearing a scarf", "Is your character wearing a scarf?"],
+    tie: ["is wearing a tie", "Is your character wearing a tie?"],
+    headphones: ["is wearing headphones", "Is your character wearing headphones?"],
+    piercing: ["has a visible piercing", "Does your character have a visible piercing?"],
+    watch: ["is wearing a watch", "Is your character wearing a watch?"],
+    bag: ["is carrying a bag", "Is your character carrying a bag?"],
+};
+
+/**
+ * Builds the full catalog of features that can be asked about, derived from the attribute definitions.
+ */
+function buildFeatureCatalog(): FeatureSpec[] {
+    const catalog: FeatureSpec[] = [];
+
+    for (const gender of ["man", "woman"] as const) {
+        catalog.push({
+            key: `apparent_gender=${gender}`,
+            description: `is a ${gender}`,
+            question: `Is your character a ${gender}?`,
+            holds: (a) => a.apparent_gender === gender,
+        });
+    }
+
+    for (const color of CATEGORICAL_ATTRIBUTES.hair_color) {
+        if (color === "none" || color === "other") continue;
+        catalog.push({
+            key: `hair_color=${color}`,
+            description: `has ${color} hair`,
+            question: `Does your character have ${color} hair?`,
+            holds: (a) => a.hair_color === color,
+        });
+    }
+
+    for (const length of CATEGORICAL_ATTRIBUTES.hair_length) {
+        catalog.push(
+            length === "bald"
+                ? {
+                      key: "hair_length=bald",
+                      description: "is bald",
+                      question: "Is your character bald?",
+                      holds: (a) => a.hair_length === "bald",
+                  }
+                : {
+                      key: `hair_length=${length}`,
+                      description: `has ${length}-length hair`,
+                      question: `Does your character have ${length === "medium" ? "medium-length" : length} hair?`,
+                      holds: (a) => a.hair_length === length,
+                  },
+        );
+    }
+
+    catalog.push({
+        key: "facial_hair=any",
+        description: "has facial hair",
+        question: "Does your character have facial hair?",
+        holds: (a) => a.facial_hair !== "none",
+    });
+    for (const style of CATEGORICAL_ATTRIBUTES.facial_hair) {
+        if (style === "none") continue;
+        catalog.push({
+            key: `facial_hair=${style}`,
+            description: style === "stubble" ? "has stubble" : `has a ${style}`,
+            question:
+                style === "stubble" ? "Does your character have stubble?" : `Does your character have a ${style}?`,
+            holds: (a) => a.facial_hair === style,
+        });
+    }
+
+    for (const attribute of BOOLEAN_ATTRIBUTES) {
+        const [description, question] = BOOLEAN_QUESTIONS[attribute];
+        catalog.push({ key: attribute, description, question, holds: (a) => a[attribute] });
+    }
+
+    for (const accessory of ACCESSORIES) {
+        const [description, question] = ACCESSORY_QUESTIONS[accessory];
+        catalog.push({
+            key: `accessories=${accessory}`,
+            description,
+            question,
+            holds: (a) => a.accessories.includes(accessory),
+        });
+    }
+
+    for (const color of CATEGORICAL_ATTRIBUTES.background_color) {
+        if (color === "other") continue;
+        catalog.push({
+            key: `background_color=${color}`,
+            description: `has a ${color} background in their picture`,
+            question: `Is the background of your character's picture ${color}?`,
+            holds: (a) => a.background_color === color,
+        });
+    }
+
+    return catalog;
+}
+
+export const FEATURE_CATALOG: FeatureSpec[] = buildFeatureCatalog();
+
+/**
+ * Computes the binary entropy of a split, in bits.
+ * @param yes The number of candidates on one side.
+ * @param total The total number of candidates.
+ */
+function splitEntropy(yes: number, total: number): number {
+    if (yes === 0 || yes === total) return 0;
+    const p = yes / total;
+    return -(p * Math.log2(p) + (1 - p) * Math.log2(1 - p));
+}
+
+/**
+ * Scores a single feature against the remaining candidates.
+ * @param feature The feature to score.
+ * @param characters The remaining candidates; all must have attributes.
+ * @param attributes The board's attribute matrix.
+ * @returns The scored question.
+ */
+export function scoreFeature(
+    feature: FeatureSpec,
+    characters: Character[],
+    attributes: BoardAttributes,
+): PlannedQuestion {
+    const yesIds: string[] = [];
+    const noIds: string[] = [];
+    for (const character of characters) {
+        (feature.holds(attributes[character.character_id]) ? yesIds : noIds).push(character.character_id);
+    }
+
+    const total = characters.length;
+    return {
+        feature,
+        yesIds,
+        noIds,
+        // P(yes) * |no| + P(no) * |yes|
+        expectedEliminations: total > 0 ? (2 * yesIds.length * noIds.length) / total : 0,
+        entropy: splitEntropy(yesIds.length, total),
+    };
+}
+
+/**
+ * Scores every feature that actually splits the remaining candidates, best first.
+ * Ordering is fully deterministic: by entropy, then expected eliminations, then catalog order.
+ * @param characters The remaining candidates; all must have attributes.
+ * @param attributes The board's attribute matrix.
+ * @param excludedKeys Feature keys that must not be used (e.g. already asked).
+ * @returns The ranked questions. Empty if no feature splits the candidates.
+ */
+export function rankQuestions(
+    characters: Character[],
+    attributes: BoardAttributes,
+    excludedKeys: Iterable<string> = [],
+): PlannedQuestion[] {
+    const excluded = new Set(excludedKeys);
+    return FEATURE_CATALOG.filter((feature) => !excluded.has(feature.key))
+        .map((feature) => scoreFeature(feature, characters, attributes))
+        .filter((plan) => plan.entropy > 0)
+        .sort((a, b) => b.entropy - a.entropy || b.expectedEliminations - a.expectedEliminations);
+}
+
+/**
+ * Picks the most informative question for the remaining candidates.
+ * @param characters The remaining candidates; all must have attributes.
+ * @param attributes The board's attribute matrix.
+ * @param excludedKeys Feature keys that must not be used (e.g. already asked).
+ * @returns The best question, or `null` if no feature splits the candidates.
+ */
+export function planQuestion(
+    characters: Character[],
+    attributes: BoardAttributes,
+    excludedKeys: Iterable<string> = [],
+): PlannedQuestion | null {
+    return rankQuestions(characters, attributes, excludedKeys)[0] ?? null;
+}
+
+/**
+ * Turns a planned question into the per-character analysis used for elimination.
+ * @param plan The planned question.
+ * @param characters The remaining candidates.
+ * @returns One analysis entry per candidate, with reasoning that cites the board analysis.
+ */
+export function getAnalysisFromPlan(plan: PlannedQuestion, characters: Character[]): EliminationAnalysisResult[] {
+    const yesIds = new Set(plan.yesIds);
+    return characters.map((character) => {
+        const hasFeature = yesIds.has(character.character_id);
+        return {
+            id: character.character_id,
+            name: character.name,
+            has_feature: hasFeature,
+            reasoning: `Board analysis: ${character.name} ${hasFeature ? "matches" : "does not match"} "${plan.feature.description}".`,
+        };
+    });
+}
+
+/**
+ * Explains a planned question in one sentence, for the review mode.
+ * @param plan The planned question.
+ * @returns A human-readable explanation.
+ */
+export function describePlan(plan: PlannedQuestion): string {
+    const total = plan.yesIds.length + plan.noIds.length;
+    return `The AI's planner chose "${plan.feature.description}": ${plan.yesIds.length} of ${total} candidates match, so the answer is expected to eliminate ${plan.expectedEliminations.toFixed(1)} of them (${plan.entropy.toFixed(2)} bits of information).`;
+}
@@ -0,0 +1,81 @@
+/**
+ * @file Selects the active AI provider and forwards lifecycle calls to it.
+ */
+import { builtInProvider } from "./providers/builtInProvider";
+import { localProvider } from "./providers/localProvider";
+import { type AIProvider, type PromptMessage, type ProviderStatusOptions } from "./types";
+
+/** The URL search parameter used to choose a provider at startup, e.g. `?ai=local`. */
+const PROVIDER_QUERY_PARAM = "ai";
+
+const PROVIDERS: Record<string, AIProvider> = {
+    [builtInProvider.name]: builtInProvider,
+    [localProvider.name]: localProvider,
+};
+
+/**
+ * Picks the provider requested in the page URL, falling back to the built-in model.
+ * @returns The provider to use for this session.
+ */
+function selectProviderFromEnvironment(): AIProvider {
+    try {
+        const requested = new URLSearchParams(self.location?.search ?? "").get(PROVIDER_QUERY_PARAM);
+        if (requested && PROVIDERS[requested]) {
+            return PROVIDERS[requested];
+        }
+        if (requested) {
+            console.warn(`Unknown AI provider "${requested}". Falling back to "${builtInProvider.name}".`);
+        }
+    } catch {
+        // No location available (e.g. when running outside a browser).
+    }
+    return builtInProvider;
+}
+
+let activeProvider: AIProvider = selectProviderFromEnvironment();
+
+/**
+ * Returns the provider all AI calls are routed through.
+ */
+export function getProvider(): AIProvider {
+    return activeProvider;
+}
+
+/**
+ * Replaces the active provider. Useful for tests and tools that drive the game without a browser.
+ * @param provider The provider instance, or the name of a registered provider.
+ */
+export function setProvider(provider: AIProvider | string): void {
+    if (typeof provider === "string") {
+        if (!PROVIDERS[provider]) {
+            throw new Error(`Unknown AI provider "${provider}".`);
+        }
+        activeProvider = PROVIDERS[provider];
+    } else {
+        activeProvider = provider;
+    }
+}
+
+/**
+ * Initializes the active provider.
+ * @param options Callbacks for status updates.
+ */
+export function initialize(options: ProviderStatusOptions): Promise<void> {
+    return activeProvider.initialize(options);
+}
+
+/**
+ * Triggers the download of the active provider's model.
+ * @param options Callbacks for status and progress updates.
+ */
+export function downloadModel(options: ProviderStatusOptions): Promise<void> {
+    return activeProvider.downloadModel(options);
+}
+
+/**
+ * Starts a fresh session on the active provider so no history is carried over between games.
+ * @param history Earlier turns to prime the session with, e.g. when a saved game is resumed.
+ */
+export function startNewGameSession(history?: PromptMessage[]): Promise<void> {
+    return activeProvider.startNewGameSession(history);
+}
@@ -1,8 +1,16 @@
 /**
- * @file Manages the lifecycle of the on-device AI model session.
+ * @file The AI provider backed by Chrome's built-in, on-device Gemini Nano model.
+ * Manages the lifecycle of the on-device AI model session.
  */
-import { AIStatus } from "../../types";
-import { type LanguageModel, type LanguageModelSession } from "./types";
+import { AIStatus } from "../../../types";
+import {
+    type AIProvider,
+    type LanguageModel,
+    type LanguageModelSession,
+    type PromptMessage,
+    type PromptOptions,
+    type ProviderStatusOptions,
+} from "../types";
 
 let session: LanguageModelSession | null = null;
 let model: LanguageModel | null = null; // Store the model entry point for reuse
@@ -25,9 +33,7 @@ function getModelEntryPoint(): LanguageModel | null {
  * Initializes the AI model, handling availability checks.
  * @param options Callbacks for status and progress updates.
  */
-export async function initialize(options: {
-    onStatusChange: (status: AIStatus, message?: string) => void;
-}): Promise<void> {
+async function initialize(options: ProviderStatusOptions): Promise<void> {
     const { onStatusChange } = options;
 
     // Avoid re-initializing if the model is already available.
@@ -72,10 +78,7 @@ export async function initialize(options: {
  * Triggers the download of the AI model.
  * @param options Callbacks for status and progress updates.
  */
-export async function downloadModel(options: {
-    onStatusChange: (status: AIStatus, message?: string) => void;
-    onProgress?: (progress: number) => void;
-}): Promise<void> {
+async function downloadModel(options: ProviderStatusOptions): Promise<void> {
     const { onStatusChange, onProgress } = options;
 
     if (!model) {
@@ -133,7 +136,7 @@ export async function downloadModel(options: {
  * @returns The active LanguageModelSession.
  * @throws If the session is not initialized.
  */
-export async function getSession(): Promise<LanguageModelSession> {
+async function getSession(): Promise<LanguageModelSession> {
     if (!session) {
         throw new Error("AI session not initialized. Call initialize() first.");
     }
@@ -143,8 +146,9 @@ export async function getSession(): Promise<LanguageModelSession> {
 /**
  * Destroys any existing AI session and creates a new, clean one for a new game.
  * This ensures no conversation history is carried over between games.
+ * @param history Earlier turns the new session starts with, e.g. when a saved game is resumed.
  */
-export async function startNewGameSession(): Promise<void> {
+async function startNewGameSession(history?: PromptMessage[]): Promise<void> {
     // Destroy the previous session if it exists to ensure a clean slate.
     if (session) {
         session.destroy();
@@ -156,9 +160,73 @@ export async function startNewGameSession(): Promise<void> {
 
     // Create a new session for the new game.
     try {
-        session = await model.create(createOptions);
+        session = await model.create(
+            history && history.length > 0 ? { ...createOptions, initialPrompts: history } : createOptions,
+        );
     } catch (e) {
         console.error("Failed to create new AI session:", e);
         throw new Error("Could not start a new game session with the AI.");
     }
 }
+
+/**
+ * Sends a prompt to the active session.
+ * @param messages The prompt messages.
+ * @param options Optional prompt options, such as a response schema.
+ * @returns A promise that resolves to the model's raw text response.
+ */
+async function prompt(messages: PromptMessage[], options?: PromptOptions): Promise<string> {
+    const { isolated, ...promptOptions } = options ?? {};
+    let result: unknown;
+    if (isolated) {
+        if (!model) {
+            throw new Error("AI model is not initialized. Cannot start a separate session.");
+        }
+        const sideSession = await model.create({ ...createOptions, signal: promptOptions.signal });
+        try {
+            result = await sideSession.prompt(messages, promptOptions);
+        } finally {
+            sideSession.destroy();
+        }
+    } else {
+        const session = await getSession();
+        result = await session.prompt(messages, promptOptions);
+    }
+
+    if (typeof result !== "string") {
+        console.error("AI response is not a string:", result);
+        throw new Error("AI failed to return a valid text response.");
+    }
+
+    return result;
+}
+
+/**
+ * Transcribes an audio blob using the multi-modal capabilities of the on-device model.
+ * @param audioBlob The audio data to transcribe.
+ * @param options Optional options, such as an abort signal.
+ * @returns A promise that resolves to the raw transcription.
+ */
+async function transcribe(audioBlob: Blob, options?: Pick<PromptOptions, "signal">): Promise<string> {
+    return prompt(
+        [
+            {
+                role: "user",
+                content: [
+                    { type: "text", value: "Transcribe the following audio into a short, one-sentence question." },
+                    { type: "audio", value: audioBlob },
+                ],
+            },
+        ],
+        options,
+    );
+}
+
+export const builtInProvider: AIProvider = {
+    name: "built-in",
+    initialize,
+    downloadModel,
+    startNewGameSession,
+    prompt,
+    transcribe,
+};
@@ -0,0 +1,219 @@
+/**
+ * @file A deterministic, rule-based stand-in for the on-device model.
+ * It never looks at images or audio; instead it derives stable answers from the prompt text and the
+ * response schema, so the full game flow can be developed, demoed and tested on machines without the
+ * built-in AI API.
+ */
+import { AIStatus } from "../../../types";
+import { type AIProvider, type PromptMessage, type PromptOptions, type ProviderStatusOptions } from "../types";
+
+type JsonSchema = {
+    type?: string;
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    minItems?: number;
+};
+
+/** A short artificial delay so loading states in the UI behave like they do with a real model. */
+const RESPONSE_DELAY_MS = 400;
+
+/** The questions the stand-in cycles through when it is asked to pick a question itself. */
+const SCRIPTED_QUESTIONS = [
+    "Is your character wearing glasses?",
+    "Does your character have blonde hair?",
+    "Is your character wearing a hat?",
+    "Does your character have facial hair?",
+    "Does your character have long hair?",
+    "Is your character smiling?",
+    "Is your character wearing earrings?",
+    "Does your character have dark hair?",
+];
+
+/** The questions returned, in order, when transcribing audio. */
+const SCRIPTED_TRANSCRIPTIONS = [
+    "Does your character wear glasses?",
+    "Does your character have a beard?",
+    "Is your character wearing a hat?",
+];
+
+let transcriptionCount = 0;
+
+/**
+ * Waits for the artificial response delay, rejecting early if the signal is aborted.
+ * @param signal An optional signal that cancels the wait.
+ */
+function simulateLatency(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const timer = setTimeout(resolve, RESPONSE_DELAY_MS);
+        signal?.addEventListener(
+            "abort",
+            () => {
+                clearTimeout(timer);
+                reject(signal.reason);
+            },
+            { once: true },
+        );
+    });
+}
+
+/**
+ * Computes a stable 32-bit FNV-1a hash for a string.
+ * @param text The text to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+function hashString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Derives a stable pseudo-random boolean from a seed string.
+ */
+function hashBoolean(seed: string): boolean {
+    return hashString(seed) % 2 === 0;
+}
+
+/**
+ * Concatenates all text content of a prompt, in order, so it can be used as a hash seed.
+ */
+function getPromptText(messages: PromptMessage[]): string {
+    return messages
+        .flatMap((msg) => msg.content)
+        .map((part) => (part.type === "text" ? part.value : `[${part.type}]`))
+        .join("\n");
+}
+
+/**
+ * Picks the next scripted question that does not already appear in the conversation.
+ */
+function pickQuestion(messages: PromptMessage[]): string {
+    const history = messages.filter((msg) => msg.role === "assistant").map((msg) => getPromptText([msg]).toLowerCase());
+    const unused = SCRIPTED_QUESTIONS.filter((q) => !history.some((text) => text.includes(q.toLowerCase())));
+    const pool = unused.length > 0 ? unused : SCRIPTED_QUESTIONS;
+    return pool[history.length % pool.length];
+}
+
+/**
+ * Produces a value that conforms to the given JSON schema, using the seed to make choices.
+ * @param schema The schema to satisfy.
+ * @param seed A string that makes the generated value deterministic.
+ * @returns A value matching the schema.
+ */
+function synthesize(schema: JsonSchema, seed: string): unknown {
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[hashString(seed) % schema.enum.length];
+    }
+
+    switch (schema.type) {
+        case "boolean":
+            return hashBoolean(seed);
+        case "number":
+        case "integer":
+            return hashString(seed) % 100;
+        case "string":
+            return "This is a scripted response from the local stand-in AI.";
+        case "array": {
+            const items = schema.items ?? {};
+            // Arrays keyed by an enumerated id get exactly one entry per id, which mirrors
+            // how the game asks for one analysis entry per character.
+            const ids = items.properties?.id?.enum;
+            if (ids) {
+                return ids.map((id) => {
+                    const entry = synthesize(items, `${seed}:${String(id)}`) as Record<string, unknown>;
+                    return { ...entry, id, ...(items.properties?.name ? { name: id } : {}) };
+                });
+            }
+            return Array.from({ length: schema.minItems ?? 1 }, (_, i) => synthesize(items, `${seed}:${i}`));
+        }
+        case "object":
+        default:
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, value]) => [
+                    key,
+                    synthesize(value, `${seed}:${key}`),
+                ]),
+            );
+    }
+}
+
+/**
+ * Builds the response for the AI's own turn: a scripted question plus an analysis entry for every
+ * candidate. The analysis is guaranteed to split the candidates so the game can always progress.
+ */
+function answerQuestionAndAnalysis(messages: PromptMessage[], schema: JsonSchema): Record<string, unknown> {
+    const question = pickQuestion(messages);
+    const analysis = synthesize(schema.properties!.analysis, question) as Array<Record<string, unknown>>;
+
+    analysis.forEach((entry) => {
+        entry.has_feature = hashBoolean(`${String(entry.id)}:${question}`);
+        entry.reasoning = `Scripted verdict for ${String(entry.id)}.`;
+    });
+    if (analysis.length > 1 && analysis.every((entry) => entry.has_feature === analysis[0].has_feature)) {
+        analysis[0].has_feature = !analysis[0].has_feature;
+    }
+
+    return { question, analysis };
+}
+
+/**
+ * Answers a player's question. The stand-in cannot see, so it always gives a definite yes or no.
+ */
+function answerPlayerQuestion(promptText: string): Record<string, unknown> {
+    const isYes = hashBoolean(promptText);
+    return { verdict: isYes ? "yes" : "no", reason: "Scripted answer from the local stand-in AI." };
+}
+
+async function initialize({ onStatusChange }: ProviderStatusOptions): Promise<void> {
+    onStatusChange(AIStatus.READY, "Local stand-in AI ready (scripted responses).");
+}
+
+async function downloadModel({ onStatusChange }: ProviderStatusOptions): Promise<void> {
+    onStatusChange(AIStatus.READY, "Local stand-in AI ready (scripted responses).");
+}
+
+async function startNewGameSession(): Promise<void> {
+    transcriptionCount = 0;
+}
+
+async function prompt(messages: PromptMessage[], options?: PromptOptions): Promise<string> {
+    await simulateLatency(options?.signal);
+
+    const schema = options?.responseConstraint as JsonSchema | undefined;
+    const promptText = getPromptText(messages);
+
+    if (!schema) {
+        return "This is a scripted response from the local stand-in AI.";
+    }
+    if (schema.properties?.question && schema.properties?.analysis) {
+        return JSON.stringify(answerQuestionAndAnalysis(messages, schema));
+    }
+    if (schema.properties?.verdict) {
+        return JSON.stringify(answerPlayerQuestion(promptText));
+    }
+    return JSON.stringify(synthesize(schema, promptText));
+}
+
+async function transcribe(_audioBlob: Blob, options?: Pick<PromptOptions, "signal">): Promise<string> {
+    await simulateLatency(options?.signal);
+    const text = SCRIPTED_TRANSCRIPTIONS[transcriptionCount % SCRIPTED_TRANSCRIPTIONS.length];
+    transcriptionCount++;
+    return text;
+}
+
+export const localProvider: AIProvider = {
+    name: "local",
+    initialize,
+    downloadModel,
+    startNewGameSession,
+    prompt,
+    transcribe,
+};
@@ -0,0 +1,98 @@
+/**
+ * @file Keeps track of which kinds of features the model misjudges, based on the player's corrections in
+ * review mode, so the planner can prefer questions about features the model reads reliably.
+ */
+import { type FeatureReliability } from "../../types";
+import { type PlannedQuestion } from "./planner";
+
+/**
+ * Keywords that identify the feature type of a question the model chose itself, checked in order.
+ * More specific types come first, e.g. "long hair" is about hair length rather than hair colour.
+ */
+const FEATURE_TYPE_PATTERNS: [string, RegExp][] = [
+    ["background_color", /\bbackground\b/i],
+    ["accessories", /\b(necklace|scarf|tie|headphones|piercing|watch|bag)s?\b/i],
+    ["glasses", /\b(glasses|spectacles|sunglasses)\b/i],
+    ["hat", /\b(hat|cap|beanie)s?\b/i],
+    ["earrings", /\bearrings?\b/i],
+    ["facial_hair", /\b(beard|moustache|mustache|stubble|facial hair|goatee)\b/i],
+    ["hair_length", /\b(bald|long hair|short hair|medium[- ]length)\b/i],
+    ["hair_color", /\bhair\b/i],
+    ["smiling", /\bsmil(e|es|ing)\b/i],
+    ["apparent_gender", /\b(man|woman|male|female|boy|girl)\b/i],
+];
+
+/**
+ * Checks whether a stored value has the shape of the review statistics.
+ * @param value The value to check.
+ */
+export function isFeatureReliability(value: unknown): value is FeatureReliability {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+    return Object.values(value).every(
+        (entry: unknown) =>
+            typeof entry === "object" &&
+            entry !== null &&
+            Number.isFinite((entry as { reviewed?: unknown }).reviewed) &&
+            Number.isFinite((entry as { corrected?: unknown }).corrected),
+    );
+}
+
+/** The pseudo-count of error-free reviews every feature type starts with, so one correction is not damning. */
+const PRIOR_REVIEWS = 10;
+
+/**
+ * Works out what kind of feature a question is about.
+ * @param question The question text.
+ * @param featureKey The planned feature behind the question, if any.
+ * @returns The feature type, e.g. `hair_color`, or `other` if it cannot be told.
+ */
+export function getFeatureType(question: string, featureKey?: string | null): string {
+    if (featureKey) return featureKey.split("=")[0];
+    return FEATURE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(question))?.[0] ?? "other";
+}
+
+/**
+ * Records one reviewed analysis.
+ * @param reliability The current record.
+ * @param featureType The feature type of the reviewed question.
+ * @param reviewed The number of verdicts the player reviewed.
+ * @param corrected The number of verdicts the player corrected.
+ * @returns The updated record.
+ */
+export function recordReview(
+    reliability: FeatureReliability,
+    featureType: string,
+    reviewed: number,
+    corrected: number,
+): FeatureReliability {
+    const current = reliability[featureType] ?? { reviewed: 0, corrected: 0 };
+    return {
+        ...reliability,
+        [featureType]: { reviewed: current.reviewed + reviewed, corrected: current.corrected + corrected },
+    };
+}
+
+/**
+ * Estimates how often the model misjudges a feature type (0-1).
+ * @param reliability The record of reviews.
+ * @param featureType The feature type.
+ */
+export function getMisjudgementRate(reliability: FeatureReliability, featureType: string): number {
+    const stats = reliability[featureType];
+    if (!stats) return 0;
+    return stats.corrected / (stats.reviewed + PRIOR_REVIEWS);
+}
+
+/**
+ * Re-orders ranked questions so features the model often misjudges lose some of their value: a question's
+ * information is discounted by the estimated misjudgement rate of its feature type.
+ * @param ranked The questions, best first.
+ * @param reliability The record of reviews.
+ * @returns The re-ordered questions.
+ */
+export function applyReliability(ranked: PlannedQuestion[], reliability: FeatureReliability): PlannedQuestion[] {
+    const score = (plan: PlannedQuestion) =>
+        plan.entropy * (1 - getMisjudgementRate(reliability, getFeatureType(plan.feature.question, plan.feature.key)));
+    // Array.prototype.sort is stable, so ties keep the planner's order.
+    return [...ranked].sort((a, b) => score(b) - score(a));
+}
@@ -0,0 +1,32 @@
+/**
+ * @file Rebuilds the model's session for a resumed game. The session is primed with the facts the AI learned,
+ * not with the raw chat log, so it carries what matters for the AI's next question and nothing else.
+ */
+import { type AIFact } from "../../types";
+import { getResumedGamePrompt } from "../prompts";
+import { startNewGameSession } from "./provider";
+import { type PromptMessage } from "./types";
+
+/**
+ * Turns the AI's facts into a conversation: each question as the AI's turn, each answer as the player's.
+ * @param facts The questions the AI asked and the answers it got, in order.
+ * @returns The prompt messages.
+ */
+export function getHistoryFromFacts(facts: AIFact[]): PromptMessage[] {
+    const history: PromptMessage[] = [
+        { role: "user", content: [{ type: "text", value: getResumedGamePrompt(facts) }] },
+    ];
+    facts.forEach((fact) => {
+        history.push({ role: "assistant", content: [{ type: "text", value: fact.question }] });
+        history.push({ role: "user", content: [{ type: "text", value: fact.answer }] });
+    });
+    return history;
+}
+
+/**
+ * Starts a fresh session for a resumed game, primed with what the AI learned before the game was interrupted.
+ * @param facts The questions the AI asked and the answers it got, in order.
+ */
+export function resumeGameSession(facts: AIFact[]): Promise<void> {
+    return startNewGameSession(facts.length > 0 ? getHistoryFromFacts(facts) : undefined);
+}
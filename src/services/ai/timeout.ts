@@ -1,5 +1,5 @@
 /**
- * @file Provides a timeout utility for promises.
+ * @file Provides timeout and cancellation utilities for AI requests.
  */
 
 /**
@@ -13,24 +13,61 @@ export class TimeoutError extends Error {
 }
 
 /**
- * Wraps a promise with a timeout.
- * @param promise The promise to wrap.
+ * Checks whether an error was caused by an aborted request rather than a genuine failure.
+ * @param error The error to inspect.
+ * @returns True if the error is an `AbortError`.
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Runs an abortable task with a timeout.
+ * The task receives its own `AbortSignal`, which is aborted when the timeout elapses or when the optional
+ * parent `signal` is aborted, so the underlying work is actually cancelled instead of left running.
+ * @param task A function that starts the work and honours the given signal.
  * @param ms The timeout in milliseconds.
- * @returns A new promise that rejects with a TimeoutError if the original promise doesn't resolve or reject in time.
+ * @param signal An optional signal that cancels the task when aborted.
+ * @returns A promise that rejects with a TimeoutError if the task doesn't resolve or reject in time,
+ * or with the abort reason if the parent signal is aborted.
  */
-export function promiseWithTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+export function promiseWithTimeout<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    ms: number,
+    signal?: AbortSignal,
+): Promise<T> {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const controller = new AbortController();
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            controller.abort(signal?.reason);
+            reject(signal?.reason);
+        };
+
         const timer = setTimeout(() => {
-            reject(new TimeoutError(`Operation timed out after ${ms} ms`));
+            const error = new TimeoutError(`Operation timed out after ${ms} ms`);
+            signal?.removeEventListener("abort", onAbort);
+            controller.abort(error);
+            reject(error);
         }, ms);
 
-        promise
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        task(controller.signal)
             .then((value) => {
                 clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
                 resolve(value);
             })
             .catch((reason) => {
                 clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
                 reject(reason);
             });
     });
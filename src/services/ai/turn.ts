@@ -0,0 +1,159 @@
+/**
+ * @file Decides what the AI does on its turn: ask a question or guess a character.
+ * The result is a typed action, so the game logic never has to parse the AI's chat text.
+ */
+import {
+    type AIDifficulty,
+    type BoardAttributes,
+    type Character,
+    type CharacterBeliefs,
+    type EliminationAnalysisResult,
+    type FeatureReliability,
+    type Message,
+} from "../../types";
+import { getAIQuestionAndAnalysis, phraseFeatureQuestion } from "./api";
+import { hasCompleteAttributes } from "./attributes";
+import { getMostLikelyCandidate } from "./beliefs";
+import { choosePlannedQuestion, DIFFICULTY_PROFILES, shouldGuessEarly, type DifficultyProfile } from "./difficulty";
+import { getAnalysisFromPlan, rankQuestions, type PlannedQuestion } from "./planner";
+import { applyReliability } from "./reliability";
+import { DEFAULT_VOTING_PASSES, getAnalysisWithVoting } from "./voting";
+
+/**
+ * The AI's move for one turn.
+ */
+export type AITurnAction =
+    | {
+          kind: "ask";
+          question: string;
+          analysis: EliminationAnalysisResult[];
+          /** The planned feature behind the question, or `null` if the model chose the question itself. */
+          plan: PlannedQuestion | null;
+      }
+    | { kind: "guess"; characterId: string };
+
+export type AITurnOptions = {
+    /** The characters the AI still considers plausible. */
+    candidates: Character[];
+    beliefs: CharacterBeliefs;
+    messages: Message[];
+    attributes: BoardAttributes;
+    difficulty: AIDifficulty;
+    isVotingEnabled: boolean;
+    /** The number of characters the player has not eliminated yet. */
+    playerRemainingCount: number;
+    /** Planned features that must not be asked about (already asked, or rejected earlier this turn). */
+    excludedFeatureKeys?: Iterable<string>;
+    /** How often the player corrected the model's verdicts, per feature type. */
+    reliability?: FeatureReliability;
+    /** The game's source of random numbers in [0, 1), so a seeded game makes the same choices. */
+    random?: () => number;
+    retryReason?: string;
+    lastFailedQuestion?: string;
+    signal?: AbortSignal;
+};
+
+/**
+ * Thrown when a question would not split the remaining candidates, so its answer could not eliminate anyone.
+ */
+export class NonDiscriminatoryQuestionError extends Error {
+    readonly question: string;
+    /** The planned feature behind the question, if any. */
+    readonly featureKey?: string;
+
+    constructor(question: string, featureKey?: string) {
+        super("The question did not split the remaining characters.");
+        this.name = "NonDiscriminatoryQuestionError";
+        this.question = question;
+        this.featureKey = featureKey;
+    }
+}
+
+/**
+ * Decides whether the AI should guess now and, if so, whom.
+ * The AI guesses when only one candidate is left, when it is confident enough in its most likely candidate,
+ * or when the difficulty allows a calculated early guess because the player is about to win.
+ * @param candidates The characters the AI still considers plausible.
+ * @param beliefs The AI's beliefs.
+ * @param playerRemainingCount The number of characters the player has not eliminated yet.
+ * @param profile The difficulty profile.
+ * @returns The character to guess, or `null` to ask a question instead.
+ */
+export function chooseGuess(
+    candidates: Character[],
+    beliefs: CharacterBeliefs,
+    playerRemainingCount: number,
+    profile: DifficultyProfile,
+): Character | null {
+    const best = getMostLikelyCandidate(candidates, beliefs);
+    if (!best) return null;
+    if (candidates.length === 1) return best;
+
+    const total = Object.values(beliefs).reduce((sum, p) => sum + p, 0);
+    const confidence = total > 0 ? (beliefs[best.character_id] ?? 0) / total : 0;
+    if (confidence >= profile.guessConfidence) return best;
+
+    return shouldGuessEarly(candidates.length, playerRemainingCount, profile) ? best : null;
+}
+
+/**
+ * Produces the AI's action for this turn.
+ * With a complete attribute matrix the planner picks the question and the model only phrases it and verifies
+ * the verdicts; otherwise the model chooses the question itself.
+ * @param options The game state the decision is based on.
+ * @returns A promise that resolves to the action.
+ * @throws {NonDiscriminatoryQuestionError} If the verified analysis does not split the candidates.
+ */
+export async function getAITurnAction(options: AITurnOptions): Promise<AITurnAction> {
+    const { candidates, beliefs, messages, attributes, isVotingEnabled, signal } = options;
+    const profile = DIFFICULTY_PROFILES[options.difficulty];
+
+    const guess = chooseGuess(candidates, beliefs, options.playerRemainingCount, profile);
+    if (guess) return { kind: "guess", characterId: guess.character_id };
+
+    const plan = hasCompleteAttributes(candidates, attributes)
+        ? choosePlannedQuestion(
+              applyReliability(
+                  rankQuestions(candidates, attributes, options.excludedFeatureKeys),
+                  options.reliability ?? {},
+              ),
+              profile,
+              options.random,
+          )
+        : null;
+
+    let question: string;
+    let draftAnalysis: EliminationAnalysisResult[];
+    if (plan) {
+        const askedQuestions = messages.filter((msg) => msg.sender === "AI").map((msg) => msg.text);
+        question = await phraseFeatureQuestion(plan.feature, askedQuestions, signal);
+        draftAnalysis = getAnalysisFromPlan(plan, candidates);
+    } else {
+        ({ question, analysis: draftAnalysis } = await getAIQuestionAndAnalysis(candidates, messages, {
+            retryReason: options.retryReason,
+            lastFailedQuestion: options.lastFailedQuestion,
+            attributes,
+            signal,
+        }));
+    }
+
+    // Re-check every character independently and settle each verdict by majority vote. Except on the easiest
+    // level, planned verdicts are always verified, since they come from a single pre-game look. One image check
+    // against the plan would only ever tie, and ties keep the plan's verdict, so two checks are needed to correct it.
+    const votingPasses = Math.max(
+        isVotingEnabled ? DEFAULT_VOTING_PASSES : 0,
+        profile.votingPasses,
+        plan && profile.verifyPlannedVerdicts ? DEFAULT_VOTING_PASSES : 0,
+    );
+    const analysis =
+        votingPasses > 0
+            ? await getAnalysisWithVoting(question, candidates, draftAnalysis, votingPasses, signal)
+            : draftAnalysis;
+
+    const positiveFeatures = analysis.filter((res) => res.has_feature).length;
+    if (positiveFeatures === 0 || positiveFeatures === analysis.length) {
+        throw new NonDiscriminatoryQuestionError(question, plan?.feature.key);
+    }
+
+    return { kind: "ask", question, analysis, plan };
+}
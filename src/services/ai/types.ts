@@ -1,12 +1,14 @@
 /**
- * @file Contains type definitions for the experimental `window.ai.languageModel` API.
+ * @file Contains type definitions for the experimental `window.ai.languageModel` API
+ * and the provider abstraction the game uses to talk to a model.
  */
+import { type AIStatus } from "../../types";
 
 /**
  * Type definition for a language model session.
  */
 export type LanguageModelSession = {
-    prompt(prompt: any, options?: { responseConstraint?: any }): Promise<unknown>;
+    prompt(prompt: any, options?: { responseConstraint?: any; signal?: AbortSignal }): Promise<unknown>;
     destroy(): void;
 };
 
@@ -18,6 +20,67 @@ export type LanguageModel = {
     availability(): Promise<"available" | "downloadable" | "downloading" | "no">;
 };
 
+/**
+ * A single piece of content in a prompt message.
+ */
+export type PromptContent =
+    | { type: "text"; value: string }
+    | { type: "image"; value: Blob }
+    | { type: "audio"; value: Blob };
+
+/**
+ * A single message in a multi-turn prompt.
+ */
+export type PromptMessage = {
+    role: "user" | "assistant";
+    content: PromptContent[];
+};
+
+/**
+ * Options accepted by `AIProvider.prompt`.
+ */
+export type PromptOptions = {
+    /** A JSON schema the response must conform to. */
+    responseConstraint?: Record<string, unknown>;
+    /** Aborts the in-flight request when signalled. */
+    signal?: AbortSignal;
+    /**
+     * Runs the prompt on a separate session, so it neither sees nor adds to the game's conversation and can run
+     * alongside it. Meant for side analyses that are not part of the game itself.
+     */
+    isolated?: boolean;
+};
+
+/**
+ * Callbacks used by providers to report their lifecycle to the UI.
+ */
+export type ProviderStatusOptions = {
+    onStatusChange: (status: AIStatus, message?: string) => void;
+    onProgress?: (progress: number) => void;
+};
+
+/**
+ * The contract every AI backend must fulfil. The game only ever talks to a model through this interface,
+ * so the on-device model can be swapped for another implementation without touching the game logic.
+ */
+export type AIProvider = {
+    /** A short, human-readable identifier for the provider. */
+    readonly name: string;
+    /** Checks availability and prepares the provider, reporting progress through `onStatusChange`. */
+    initialize(options: ProviderStatusOptions): Promise<void>;
+    /** Downloads any model weights the provider needs before it can be used. */
+    downloadModel(options: ProviderStatusOptions): Promise<void>;
+    /**
+     * Discards any conversation state and starts a fresh session for a new game, optionally primed with earlier
+     * turns, e.g. when a saved game is resumed.
+     */
+    startNewGameSession(history?: PromptMessage[]): Promise<void>;
+    /** Sends a prompt and resolves to the raw text response (JSON text when a schema is given). */
+    prompt(messages: PromptMessage[], options?: PromptOptions): Promise<string>;
+    /** Transcribes recorded audio into a short question. */
+    transcribe(audioBlob: Blob, options?: Pick<PromptOptions, "signal">): Promise<string>;
+};
+
 /**
  * Augments the global Window interface to include experimental AI APIs.
  */
@@ -0,0 +1,219 @@
+/**
+ * @file Runtime validation and repair of the AI's structured responses.
+ * The model's JSON is never trusted blindly: every remaining character must be analysed exactly once,
+ * and the question must be a new yes/no question.
+ */
+import { type AIQuestionAndAnalysis, type Character, type EliminationAnalysisResult } from "../../types";
+
+/** Words a yes/no question in English typically starts with. */
+const YES_NO_QUESTION_STARTERS = [
+    "is",
+    "are",
+    "am",
+    "was",
+    "were",
+    "does",
+    "do",
+    "did",
+    "has",
+    "have",
+    "had",
+    "can",
+    "could",
+    "will",
+    "would",
+    "should",
+];
+
+/**
+ * A summary of everything that was wrong with a response.
+ */
+export type AnalysisValidationIssues = {
+    /** Remaining characters that have no (usable) analysis entry. */
+    missingIds: string[];
+    /** Ids in the response that are not among the remaining characters. */
+    unknownIds: string[];
+    /** Ids that appeared more than once in the response. */
+    duplicateIds: string[];
+    /** Problems with the question itself. An empty list means the question is acceptable. */
+    questionProblems: string[];
+};
+
+/**
+ * The outcome of validating a response. `analysis` only contains entries that passed validation,
+ * in the order of the remaining characters, with names taken from the game's own data.
+ */
+export type AnalysisValidationReport = {
+    question: string;
+    analysis: EliminationAnalysisResult[];
+    issues: AnalysisValidationIssues;
+};
+
+/**
+ * Thrown when the AI's response cannot be used, even after attempting a repair.
+ */
+export class AIResponseValidationError extends Error {
+    /** The question the rejected response contained, if any. */
+    readonly question: string;
+    readonly issues: AnalysisValidationIssues;
+    /** The planned feature behind the question, if any. */
+    readonly featureKey?: string;
+
+    constructor(message: string, question: string, issues: AnalysisValidationIssues, featureKey?: string) {
+        super(message);
+        this.name = "AIResponseValidationError";
+        this.question = question;
+        this.issues = issues;
+        this.featureKey = featureKey;
+    }
+}
+
+/**
+ * Normalizes a question for comparison: lower-case, no punctuation, single spaces.
+ * @param question The question to normalize.
+ * @returns The normalized question.
+ */
+export function normalizeQuestion(question: string): string {
+    return question
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Checks whether a piece of text looks like a yes/no question.
+ * @param text The text to check.
+ * @returns True if the text starts with an auxiliary verb and ends with a question mark.
+ */
+export function isYesNoQuestion(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed.endsWith("?")) return false;
+    const firstWord = normalizeQuestion(trimmed).split(" ")[0];
+    return YES_NO_QUESTION_STARTERS.includes(firstWord);
+}
+
+/**
+ * Validates a single analysis entry's shape.
+ */
+function isValidEntry(entry: unknown): entry is { id: string; has_feature: boolean; reasoning?: unknown } {
+    if (!entry || typeof entry !== "object") return false;
+    const candidate = entry as Record<string, unknown>;
+    return typeof candidate.id === "string" && typeof candidate.has_feature === "boolean";
+}
+
+/**
+ * Validates the analysis entries against the remaining characters.
+ * Unknown ids are dropped, duplicates with the same verdict are merged, and duplicates that disagree
+ * are discarded so the character is reported as missing and can be re-examined.
+ * @param entries The raw `analysis` array from the model.
+ * @param characters The characters that must each appear exactly once.
+ * @returns The usable entries and the issues found.
+ */
+export function validateAnalysis(
+    entries: unknown,
+    characters: Character[],
+): { analysis: EliminationAnalysisResult[]; issues: Omit<AnalysisValidationIssues, "questionProblems"> } {
+    const expected = new Map(characters.map((c) => [c.character_id, c]));
+    const seen = new Map<string, EliminationAnalysisResult>();
+    const conflicting = new Set<string>();
+    const unknownIds = new Set<string>();
+    const duplicateIds = new Set<string>();
+
+    for (const entry of Array.isArray(entries) ? entries : []) {
+        if (!isValidEntry(entry)) continue;
+        const character = expected.get(entry.id);
+        if (!character) {
+            unknownIds.add(entry.id);
+            continue;
+        }
+
+        const existing = seen.get(entry.id);
+        if (existing) {
+            duplicateIds.add(entry.id);
+            if (existing.has_feature !== entry.has_feature) conflicting.add(entry.id);
+            continue;
+        }
+
+        seen.set(entry.id, {
+            id: character.character_id,
+            name: character.name,
+            has_feature: entry.has_feature,
+            reasoning: typeof entry.reasoning === "string" ? entry.reasoning : "",
+        });
+    }
+
+    conflicting.forEach((id) => seen.delete(id));
+
+    const analysis = characters.filter((c) => seen.has(c.character_id)).map((c) => seen.get(c.character_id)!);
+    const missingIds = characters.filter((c) => !seen.has(c.character_id)).map((c) => c.character_id);
+
+    return {
+        analysis,
+        issues: { missingIds, unknownIds: [...unknownIds], duplicateIds: [...duplicateIds] },
+    };
+}
+
+/**
+ * Validates the question part of a response.
+ * @param question The question produced by the model.
+ * @param askedQuestions Questions the AI has already asked this game.
+ * @returns A list of problems; empty when the question is acceptable.
+ */
+export function validateQuestion(question: unknown, askedQuestions: string[]): string[] {
+    if (typeof question !== "string" || !question.trim()) {
+        return ["The question is empty."];
+    }
+
+    const problems: string[] = [];
+    if (!isYesNoQuestion(question)) {
+        problems.push(`"${question}" is not a yes/no question.`);
+    }
+    const normalized = normalizeQuestion(question);
+    if (askedQuestions.some((asked) => normalizeQuestion(asked) === normalized)) {
+        problems.push(`"${question}" has already been asked.`);
+    }
+    return problems;
+}
+
+/**
+ * Validates a full question/analysis response from the model.
+ * @param response The parsed JSON response.
+ * @param characters The remaining characters that must each be analysed exactly once.
+ * @param askedQuestions Questions the AI has already asked this game.
+ * @returns A report with the cleaned analysis and all issues found.
+ */
+export function validateQuestionAndAnalysis(
+    response: unknown,
+    characters: Character[],
+    askedQuestions: string[],
+): AnalysisValidationReport {
+    const raw = (response && typeof response === "object" ? response : {}) as Partial<AIQuestionAndAnalysis>;
+    const question = typeof raw.question === "string" ? raw.question.trim() : "";
+    const { analysis, issues } = validateAnalysis(raw.analysis, characters);
+
+    return {
+        question,
+        analysis,
+        issues: { ...issues, questionProblems: validateQuestion(raw.question, askedQuestions) },
+    };
+}
+
+/**
+ * Builds a retry instruction for the model that explains exactly what was wrong with its last response.
+ * @param issues The issues found in the response.
+ * @returns A human-readable explanation.
+ */
+export function describeValidationIssues(issues: AnalysisValidationIssues): string {
+    const parts = [...issues.questionProblems];
+    if (issues.missingIds.length > 0) {
+        parts.push(`The analysis was missing these character ids: ${issues.missingIds.join(", ")}.`);
+    }
+    if (issues.unknownIds.length > 0) {
+        parts.push(`The analysis contained ids that are not on your board: ${issues.unknownIds.join(", ")}.`);
+    }
+    if (issues.duplicateIds.length > 0) {
+        parts.push(`The analysis listed these ids more than once: ${issues.duplicateIds.join(", ")}.`);
+    }
+    return parts.join(" ");
+}
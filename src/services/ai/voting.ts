@@ -0,0 +1,77 @@
+/**
+ * @file Self-consistency voting for the AI's per-character feature analysis.
+ * Each remaining character is re-examined independently several times and the verdicts are combined by
+ * majority vote, so a single bad vision pass cannot eliminate the player's real card on its own.
+ */
+import { type Character, type EliminationAnalysisResult } from "../../types";
+import { getFeatureAnalysis } from "./api";
+
+/** The default number of extra, independent passes made per character. */
+export const DEFAULT_VOTING_PASSES = 2;
+
+/**
+ * Combines several analyses of the same characters by majority vote.
+ * Ties are broken in favour of the first analysis, which is the one the question was chosen with.
+ * @param analyses The analyses to combine. The first entry defines the order and the character set.
+ * @returns The combined analysis, with `confidence` set to the share of votes that agree with the verdict.
+ */
+export function combineVotes(analyses: EliminationAnalysisResult[][]): EliminationAnalysisResult[] {
+    const [primary, ...others] = analyses;
+    if (!primary) return [];
+
+    return primary.map((entry) => {
+        const votes = [entry, ...others.map((analysis) => analysis.find((other) => other.id === entry.id))].filter(
+            (vote): vote is EliminationAnalysisResult => !!vote,
+        );
+        const yesVotes = votes.filter((vote) => vote.has_feature).length;
+        const noVotes = votes.length - yesVotes;
+        const hasFeature = yesVotes === noVotes ? entry.has_feature : yesVotes > noVotes;
+        const agreeing = votes.filter((vote) => vote.has_feature === hasFeature);
+
+        return {
+            ...entry,
+            has_feature: hasFeature,
+            // Keep the reasoning of a vote that agrees with the final verdict.
+            reasoning: agreeing[0]?.reasoning ?? entry.reasoning,
+            confidence: agreeing.length / votes.length,
+        };
+    });
+}
+
+/**
+ * Re-examines every character in an analysis with independent, single-image prompts and combines all verdicts.
+ * @param question The question the analysis belongs to.
+ * @param characters The characters that were analyzed.
+ * @param initialAnalysis The analysis produced together with the question; it counts as the first vote.
+ * @param passes The number of extra passes per character.
+ * @param signal An optional signal that cancels the request.
+ * @returns A promise that resolves to the voted analysis.
+ */
+export async function getAnalysisWithVoting(
+    question: string,
+    characters: Character[],
+    initialAnalysis: EliminationAnalysisResult[],
+    passes: number = DEFAULT_VOTING_PASSES,
+    signal?: AbortSignal,
+): Promise<EliminationAnalysisResult[]> {
+    const extraAnalyses: EliminationAnalysisResult[][] = [];
+
+    // Passes run one after another: on-device inference is not parallel, and queueing many prompts at once
+    // would only make cancellation slower.
+    for (let pass = 0; pass < passes; pass++) {
+        const passResults: EliminationAnalysisResult[] = [];
+        for (const character of characters) {
+            try {
+                // Each vote runs on its own session, so it cannot see the game or the votes before it.
+                passResults.push(...(await getFeatureAnalysis(question, [character], signal, { isolated: true })));
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                // A failed vote is simply not counted.
+                console.warn(`Voting pass ${pass + 1} failed for ${character.name}:`, error);
+            }
+        }
+        extraAnalyses.push(passResults);
+    }
+
+    return combineVotes([initialAnalysis, ...extraAnalyses]);
+}
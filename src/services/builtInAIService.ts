@@ -1,8 +1,48 @@
 /**
- * This service acts as a facade for all interactions with the on-device Gemini Nano model.
- * It abstracts away the complexities of session management, prompt engineering, and data handling.
+ * This service acts as a facade for all interactions with the AI model.
+ * It abstracts away the complexities of provider selection, session management, prompt engineering, and data handling.
+ * Calls are routed through the active `AIProvider` (the on-device Gemini Nano model by default, or the local
+ * stand-in when the page is opened with `?ai=local`).
  * This file re-exports functions from smaller, more focused modules within the `/ai` directory.
  */
-export { initialize as initializeAI, startNewGameSession, downloadModel } from "./ai/session";
+export {
+    initialize as initializeAI,
+    startNewGameSession,
+    downloadModel,
+    getProvider,
+    setProvider,
+} from "./ai/provider";
 export { loadBlobsForDefaultCharacters } from "./ai/dataLoader";
-export { transcribeAudio, getAnswerToPlayerQuestion, getAIQuestionAndAnalysis } from "./ai/api";
\ No newline at end of file
+export { resumeGameSession } from "./ai/resume";
+export {
+    transcribeAudio,
+    getAnswerToPlayerQuestion,
+    getAIQuestionAndAnalysis,
+    getFeatureAnalysis,
+    phraseFeatureQuestion,
+} from "./ai/api";
+export { AIResponseValidationError } from "./ai/validation";
+export { getAnalysisWithVoting, DEFAULT_VOTING_PASSES } from "./ai/voting";
+export { planQuestion, rankQuestions, getAnalysisFromPlan, describePlan } from "./ai/planner";
+export {
+    DIFFICULTY_PROFILES,
+    DEFAULT_DIFFICULTY,
+    isAIDifficulty,
+    choosePlannedQuestion,
+    shouldGuessEarly,
+    pickMisElimination,
+} from "./ai/difficulty";
+export { createUniformBeliefs, updateBeliefs, getPlausibleCandidates, getMostLikelyCandidate } from "./ai/beliefs";
+export { hasContradiction, backtrack } from "./ai/consistency";
+export { getAITurnAction, NonDiscriminatoryQuestionError } from "./ai/turn";
+export { findSimilarQuestion, isSameQuestion, getAnswerFromMatch, contradictsMatch } from "./ai/answerCache";
+export { reevaluatePlayerQuestion, DISPUTE_PASSES } from "./ai/dispute";
+export { explainPlayerAnswer } from "./ai/explain";
+export { getFeatureType, recordReview, getMisjudgementRate, isFeatureReliability } from "./ai/reliability";
+export { auditGame, checkAnswerAgainstCard } from "./ai/audit";
+export { findEliminationMistakes } from "./ai/eliminationCheck";
+export { analyzeBoard, hasCompleteAttributes } from "./ai/attributes";
+export { TimeoutError, isAbortError } from "./ai/timeout";
+export type { AIProvider } from "./ai/types";
+export type { AITurnAction } from "./ai/turn";
+export type { AnsweredQuestion } from "./ai/answerCache";
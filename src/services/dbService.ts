@@ -1,8 +1,21 @@
-import { type Character } from "../types";
+import {
+    type AnalysisCorrection,
+    type BoardAttributes,
+    type Character,
+    type CharacterAttributes,
+    type GameResult,
+    type SavedGame,
+} from "../types";
 
 const DB_NAME = "ai-guess-who-db";
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 const STORE_NAME = "custom-characters";
+const ATTRIBUTES_STORE_NAME = "character-attributes";
+const RESULTS_STORE_NAME = "game-results";
+const CORRECTIONS_STORE_NAME = "analysis-corrections";
+const SAVED_GAME_STORE_NAME = "saved-game";
+/** There is only ever one saved game, stored under this key. */
+const SAVED_GAME_KEY = "current";
 
 type StoredCharacter = {
     id: string;
@@ -10,6 +23,12 @@ type StoredCharacter = {
     imageBlob: Blob;
 };
 
+type StoredAttributes = {
+    id: string;
+    attributes: CharacterAttributes;
+    analyzedAt: number;
+};
+
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
         const request = indexedDB.open(DB_NAME, DB_VERSION);
@@ -22,14 +41,33 @@ function openDB(): Promise<IDBDatabase> {
             if (!db.objectStoreNames.contains(STORE_NAME)) {
                 db.createObjectStore(STORE_NAME, { keyPath: "id" });
             }
+            if (!db.objectStoreNames.contains(ATTRIBUTES_STORE_NAME)) {
+                db.createObjectStore(ATTRIBUTES_STORE_NAME, { keyPath: "id" });
+            }
+            if (!db.objectStoreNames.contains(RESULTS_STORE_NAME)) {
+                db.createObjectStore(RESULTS_STORE_NAME, { autoIncrement: true });
+            }
+            if (!db.objectStoreNames.contains(CORRECTIONS_STORE_NAME)) {
+                db.createObjectStore(CORRECTIONS_STORE_NAME, { autoIncrement: true });
+            }
+            if (!db.objectStoreNames.contains(SAVED_GAME_STORE_NAME)) {
+                db.createObjectStore(SAVED_GAME_STORE_NAME);
+            }
         };
     });
 }
 
 export async function saveCustomCharacters(characters: Character[]): Promise<void> {
     const db = await openDB();
-    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const transaction = db.transaction([STORE_NAME, ATTRIBUTES_STORE_NAME], "readwrite");
     const store = transaction.objectStore(STORE_NAME);
+    const attributesStore = transaction.objectStore(ATTRIBUTES_STORE_NAME);
+
+    // The cached board analysis of the previous set is no longer valid once its characters are replaced
+    const previousKeysRequest = store.getAllKeys();
+    previousKeysRequest.onsuccess = () => {
+        previousKeysRequest.result.forEach((key) => attributesStore.delete(key));
+    };
 
     // Clear existing characters before saving the new set
     store.clear();
@@ -105,3 +143,189 @@ export async function hasCustomCharacters(): Promise<boolean> {
         };
     });
 }
+
+export async function loadCharacterAttributes(characterIds: string[]): Promise<BoardAttributes> {
+    const db = await openDB();
+    const transaction = db.transaction(ATTRIBUTES_STORE_NAME, "readonly");
+    const store = transaction.objectStore(ATTRIBUTES_STORE_NAME);
+    const attributes: BoardAttributes = {};
+
+    characterIds.forEach((id) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+            const stored = request.result as StoredAttributes | undefined;
+            if (stored) attributes[id] = stored.attributes;
+        };
+    });
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(attributes);
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Error loading character attributes from database");
+        };
+    });
+}
+
+export async function saveCharacterAttributes(attributes: BoardAttributes): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(ATTRIBUTES_STORE_NAME, "readwrite");
+    const store = transaction.objectStore(ATTRIBUTES_STORE_NAME);
+    const analyzedAt = Date.now();
+
+    Object.entries(attributes).forEach(([id, characterAttributes]) => {
+        const entry: StoredAttributes = { id, attributes: characterAttributes, analyzedAt };
+        store.put(entry);
+    });
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Transaction error while saving character attributes");
+        };
+    });
+}
+
+export async function saveGameResult(result: GameResult): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(RESULTS_STORE_NAME, "readwrite");
+    transaction.objectStore(RESULTS_STORE_NAME).add(result);
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Transaction error while saving game result");
+        };
+    });
+}
+
+export async function loadGameResults(): Promise<GameResult[]> {
+    const db = await openDB();
+    const transaction = db.transaction(RESULTS_STORE_NAME, "readonly");
+    const request = transaction.objectStore(RESULTS_STORE_NAME).getAll();
+
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            db.close();
+            resolve(request.result as GameResult[]);
+        };
+        request.onerror = () => {
+            db.close();
+            reject("Error loading game results from database");
+        };
+    });
+}
+
+export async function saveAnalysisCorrections(corrections: AnalysisCorrection[]): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(CORRECTIONS_STORE_NAME, "readwrite");
+    const store = transaction.objectStore(CORRECTIONS_STORE_NAME);
+    corrections.forEach((correction) => store.add(correction));
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Transaction error while saving analysis corrections");
+        };
+    });
+}
+
+export async function loadAnalysisCorrections(): Promise<AnalysisCorrection[]> {
+    const db = await openDB();
+    const transaction = db.transaction(CORRECTIONS_STORE_NAME, "readonly");
+    const request = transaction.objectStore(CORRECTIONS_STORE_NAME).getAll();
+
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            db.close();
+            resolve(request.result as AnalysisCorrection[]);
+        };
+        request.onerror = () => {
+            db.close();
+            reject("Error loading analysis corrections from database");
+        };
+    });
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(SAVED_GAME_STORE_NAME, "readwrite");
+    transaction.objectStore(SAVED_GAME_STORE_NAME).put(game, SAVED_GAME_KEY);
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Transaction error while saving the game");
+        };
+    });
+}
+
+export async function loadSavedGame(): Promise<SavedGame | null> {
+    const db = await openDB();
+    const transaction = db.transaction(SAVED_GAME_STORE_NAME, "readonly");
+    const request = transaction.objectStore(SAVED_GAME_STORE_NAME).get(SAVED_GAME_KEY);
+
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            db.close();
+            resolve((request.result as SavedGame | undefined) ?? null);
+        };
+        request.onerror = () => {
+            db.close();
+            reject("Error loading the saved game from database");
+        };
+    });
+}
+
+export async function hasSavedGame(): Promise<boolean> {
+    const db = await openDB();
+    const transaction = db.transaction(SAVED_GAME_STORE_NAME, "readonly");
+    const request = transaction.objectStore(SAVED_GAME_STORE_NAME).count(SAVED_GAME_KEY);
+
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            db.close();
+            resolve(request.result > 0);
+        };
+        request.onerror = () => {
+            db.close();
+            reject("Error checking for a saved game");
+        };
+    });
+}
+
+export async function deleteSavedGame(): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(SAVED_GAME_STORE_NAME, "readwrite");
+    transaction.objectStore(SAVED_GAME_STORE_NAME).delete(SAVED_GAME_KEY);
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve();
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject("Transaction error while deleting the saved game");
+        };
+    });
+}
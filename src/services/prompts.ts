@@ -1,4 +1,4 @@
-import { type Character } from "../types";
+import { type AIFact, type BoardAttributes, type Character } from "../types";
 
 /**
  * Provides the system prompt, which defines the AI's core persona, goal, and strategy.
@@ -15,14 +15,20 @@ export const getSystemPrompt = (): string => {
  * @param characters The list of remaining characters for the AI to consider.
  * @param retryReason An optional string explaining why a previous attempt failed.
  * @param lastFailedQuestion The specific question that failed on the previous attempt.
+ * @param attributes The precomputed attribute matrix. When given, the AI reasons over it instead of images.
  * @returns The turn-specific prompt string for generating a question and analysis.
  */
 export const getAIQuestionAndAnalysisPrompt = (
     characters: Character[],
     retryReason?: string,
     lastFailedQuestion?: string,
+    attributes?: BoardAttributes,
 ): string => {
-    const characterData = characters.map((c) => ({ id: c.character_id, name: c.name }));
+    const characterData = characters.map((c) => ({
+        id: c.character_id,
+        name: c.name,
+        ...(attributes ? { attributes: attributes[c.character_id] } : {}),
+    }));
 
     const failedQuestionInstruction = lastFailedQuestion
         ? `The specific question that failed was: "${lastFailedQuestion}". Do not ask this question again or any minor variation of it. The visual feature you based this question on is invalid. You must choose a completely different visual feature.`
@@ -66,7 +72,11 @@ This is a critical mistake. You MUST choose a DIFFERENT feature for your questio
 ${retryInstruction}
 
 **Analyze your situation:**
-*   **Your Remaining Candidate Images (${characters.length}):** You have been provided with ${characters.length} images.
+${
+    attributes
+        ? `*   **Your Remaining Candidates (${characters.length}):** Instead of images, you have been given a verified attribute sheet for every candidate. Treat these attributes as the ground truth for what each character looks like, and base your question and your analysis on them.`
+        : `*   **Your Remaining Candidate Images (${characters.length}):** You have been provided with ${characters.length} images.`
+}
 *   **Your Candidate Data:** ${JSON.stringify(characterData)}
 
 **YOUR TASK: Follow these steps precisely to generate your question and analysis.**
@@ -89,22 +99,144 @@ Your entire response MUST be a single valid JSON object matching the provided sc
 };
 
 /**
- * Generates the prompt for the AI to answer a player's question with a simple boolean.
- * @param character The AI's secret character.
+ * Generates the prompt for the AI to answer a player's question with a verdict and a short reason.
+ * The character's name is deliberately left out, since the reason is shown to the player.
  * @param question The player's question.
  * @returns The prompt string.
  */
-export const getAnswerToPlayerQuestionPrompt = (character: Character, question: string): string => {
+export const getAnswerToPlayerQuestionPrompt = (question: string): string => {
     return `You are the AI player in a "Guess Who?" game. It is the human player's turn to ask a question.
-The human's question is about **your** secret character.
-
-**Your Secret Character Information:**
-*   **Name:** "${character.name}"
-*   **Image:** The image provided to you IS your secret character, ${character.name}.
+The human's question is about **your** secret character. The image provided to you IS your secret character.
 
 **Human's Question:** "${question}"
 
 **Your Task:**
-Look at your character's image and answer the human's question with a simple 'Yes' or 'No'.
-Your entire output MUST be a single boolean value: 'true' for Yes, 'false' for No. Do not add any other text.`;
+Look at your character's image and decide on a verdict for the human's question:
+*   "yes" or "no" if it is a yes/no question that the picture clearly answers.
+*   "unanswerable" if it is a yes/no question the picture cannot settle (e.g. personality, name, or anything not visible).
+*   "not_yes_no" if it cannot be answered with yes or no at all (e.g. "What colour is their hair?").
+Never guess: when in doubt between "yes"/"no" and "unanswerable", choose "unanswerable".
+Also give a one-sentence "reason". For "unanswerable" and "not_yes_no", the reason should help the human rephrase.
+Never mention a name in the reason.
+
+**Output:**
+Your entire response MUST be a single valid JSON object matching the provided schema. Do not add any other text.`;
+};
+
+/**
+ * Generates the prompt for a careful re-evaluation of an answer the player disputed.
+ * The character's name is deliberately left out, since the reasoning is shown to the player.
+ * @param question The player's question.
+ * @param previousVerdict The verdict the AI gave originally.
+ * @returns The prompt string.
+ */
+export const getDisputePrompt = (question: string, previousVerdict: string): string => {
+    return `You are the AI player in a "Guess Who?" game. Earlier you answered a question about **your** secret character, and the human player disputes your answer.
+
+**Your Secret Character:** the image provided to you.
+**Question:** "${question}"
+**Your earlier verdict:** "${previousVerdict}"
+
+**Your Task:**
+Re-examine the image carefully and without assuming your earlier verdict was right.
+1.  In "observation", describe exactly what you see in the part of the image the question is about.
+2.  Decide the "verdict" from that observation only: "yes", "no", "unanswerable" (a yes/no question the picture cannot settle), or "not_yes_no".
+3.  In "reasoning", explain the verdict in one or two sentences that the human can check against the picture. Never mention a name.`;
+};
+
+/**
+ * Generates the prompt for explaining an answer about the AI's secret character.
+ * The character's name is deliberately left out so the explanation cannot reveal it.
+ * @param question The player's question.
+ * @param verdict The verdict the AI gave.
+ * @returns The prompt string.
+ */
+export const getExplainAnswerPrompt = (question: string, verdict: string): string => {
+    return `You are the AI player in a "Guess Who?" game. You answered a question about **your** secret character (the image provided to you), and the human player wants to know why.
+
+**Question:** "${question}"
+**Your answer:** "${verdict}"
+
+**Your Task:**
+1.  In "region", name the part of the picture the question is about (e.g. "hair", "eyes", "background").
+2.  In "explanation", describe in one or two sentences what you see in that part of the picture and how it leads to your answer.
+Describe ONLY that part of the picture. Never mention a name and never describe anything else about the person, so the human cannot work out who it is.
+
+**Output:**
+Your entire response MUST be a single valid JSON object matching the provided schema. Do not add any other text.`;
+};
+
+/**
+ * Generates the message that opens a resumed game's session, summarizing what the AI learned before the game was
+ * interrupted. It is followed by the AI's earlier questions and the player's answers.
+ * @param facts The questions the AI asked and the answers it got, in order.
+ * @returns The prompt string.
+ */
+export const getResumedGamePrompt = (facts: AIFact[]): string => {
+    return `${getSystemPrompt()}
+
+We are resuming a game that was interrupted. You already asked ${facts.length} question${facts.length === 1 ? "" : "s"}; they follow, each with my answer. Do not repeat them.`;
+};
+
+/**
+ * Generates the prompt for the AI to check a single yes/no question against a specific set of characters.
+ * Used to fill gaps when an earlier analysis skipped some characters.
+ * @param question The yes/no question to verify.
+ * @param characters The characters to analyze, in the same order as the images provided.
+ * @returns The prompt string.
+ */
+export const getFeatureAnalysisPrompt = (question: string, characters: Character[]): string => {
+    const characterData = characters.map((c) => ({ id: c.character_id, name: c.name }));
+
+    return `You are an expert "Guess Who?" player verifying a visual feature.
+
+**Question:** "${question}"
+
+**Characters (${characters.length}):** ${JSON.stringify(characterData)}
+You have been provided with ${characters.length} images, in the same order as the character list above.
+
+**Your Task:**
+For EVERY character in the list, look carefully at their image and decide whether the answer to the question would be 'Yes' for that character.
+*   Set \`has_feature\` to \`true\` if the answer is 'Yes', otherwise \`false\`.
+*   Write a short \`reasoning\` string (1-2 sentences) explaining what you see.
+*   Include exactly one entry per character id. Do not skip or repeat any character.
+
+**Output:**
+Your entire response MUST be a single valid JSON object matching the provided schema. Do not add any other text.`;
+};
+
+/**
+ * Generates the prompt for the pre-game board analysis, which extracts a structured attribute vector
+ * for a single character image.
+ * @returns The prompt string.
+ */
+export const getCharacterAttributesPrompt = (): string => {
+    return `You are preparing a "Guess Who?" board. Describe the person in the provided image as a structured attribute sheet.
+
+**Your Task:**
+Look carefully at the image and fill in every attribute of the schema:
+*   Only describe what is clearly visible. If something is ambiguous, pick the closest allowed value (or 'unclear' / 'other' where available).
+*   \`hair_color\` is 'none' only if the person is bald. Use \`hair_length\` 'bald' in that case too.
+*   \`accessories\` lists every visible item from the allowed values; use an empty list if there are none.
+
+**Output:**
+Your entire response MUST be a single valid JSON object matching the provided schema. Do not add any other text.`;
+};
+
+/**
+ * Generates the prompt for phrasing a question about a feature the AI's planner has already chosen.
+ * @param featureDescription A short description of the feature, e.g. "is wearing glasses".
+ * @returns The prompt string.
+ */
+export const getPhraseQuestionPrompt = (featureDescription: string): string => {
+    return `You are playing "Guess Who?" and have already decided what to ask about.
+
+**Feature:** The opponent's character ${featureDescription}.
+
+**Your Task:**
+Write one short, friendly yes/no question that asks your opponent whether their secret character has this feature. For example: "Is your character wearing glasses?".
+Do not mention any names and do not ask about anything else.
+
+**Output:**
+Your entire response MUST be a single valid JSON object matching the provided schema. Do not add any other text.`;
 };
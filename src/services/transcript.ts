@@ -0,0 +1,165 @@
+/**
+ * @file Exports a game as a JSON transcript for tools, or as Markdown for reading, e.g. to file a model-quality
+ * bug or to compare prompt changes on the same seed.
+ */
+import { GameState, type Character, type EliminationAnalysisResult, type GameTranscript } from "../types";
+
+export type TranscriptFormat = "json" | "markdown";
+
+/** Everything a transcript is built from; the characters are reduced to their ids and names. */
+export type TranscriptInput = Omit<GameTranscript, "version" | "exportedAt" | "characters" | "phase"> & {
+    characters: Character[];
+    phase: GameState;
+};
+
+/**
+ * Builds the transcript of a game, finished or not. The AI's secret character is left out until the game is over.
+ * @param input The state of the game.
+ */
+export function createTranscript({ characters, phase, aiSecretId, ...game }: TranscriptInput): GameTranscript {
+    return {
+        version: 1,
+        exportedAt: Date.now(),
+        ...game,
+        characters: characters.map((c) => ({ id: c.character_id, name: c.name })),
+        aiSecretId: phase === GameState.GAME_OVER ? aiSecretId : null,
+        phase: GameState[phase] as keyof typeof GameState,
+    };
+}
+
+/**
+ * Formats the time since the start of the game as "m:ss".
+ */
+const formatElapsed = (ms: number): string => {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Makes text safe to put in a Markdown table cell.
+ */
+const escapeCell = (text: string): string => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+const describeResult = (transcript: GameTranscript): string => {
+    if (transcript.phase !== "GAME_OVER") return `In progress (${transcript.phase})`;
+    const winner = transcript.winner === "PLAYER" ? "Player won" : "AI won";
+    return transcript.winReason ? `${winner}: ${transcript.winReason}` : winner;
+};
+
+const formatAnalysisTable = (analysis: EliminationAnalysisResult[]): string[] => [
+    "| Character | Has feature | Confidence | Reasoning |",
+    "| --- | --- | --- | --- |",
+    ...analysis.map(
+        (entry) =>
+            `| ${escapeCell(entry.name)} | ${entry.has_feature ? "Yes" : "No"}${entry.corrected ? " (corrected)" : ""} | ${
+                entry.confidence !== undefined ? `${Math.round(entry.confidence * 100)}%` : "-"
+            } | ${escapeCell(entry.reasoning)} |`,
+    ),
+];
+
+/**
+ * Renders a transcript as Markdown for reading or pasting into a bug report.
+ * @param transcript The transcript to render.
+ */
+export function formatTranscriptAsMarkdown(transcript: GameTranscript): string {
+    const nameOf = (id: string | null) => transcript.characters.find((c) => c.id === id)?.name ?? "-";
+    const namesOf = (ids: string[]) => ids.map(nameOf).join(", ") || "none";
+    const startedAt = transcript.messages.find((m) => m.sentAt !== undefined)?.sentAt;
+    const { settings } = transcript;
+
+    const lines = [
+        "# AI Guess Who? game transcript",
+        "",
+        `- Seed: ${transcript.seed ? `\`${transcript.seed}\`` : "none"}`,
+        `- Exported: ${new Date(transcript.exportedAt).toISOString()}`,
+        `- Result: ${describeResult(transcript)}`,
+        `- Player's character: ${nameOf(transcript.playerSecretId)}`,
+        `- AI's character: ${transcript.phase === "GAME_OVER" ? nameOf(transcript.aiSecretId) : "hidden until the game is over"}`,
+        `- Board: ${transcript.characters.map((c) => `${c.name} (\`${c.id}\`)`).join(", ")}`,
+        `- Settings: ${settings.difficulty} difficulty, review ${settings.isReviewModeEnabled ? "on" : "off"}, voting ${
+            settings.isVotingEnabled ? "on" : "off"
+        }, ${settings.assistMode} assist, undo ${settings.undoPolicy}`,
+        "",
+        "## Chat",
+        "",
+        ...transcript.messages.map((m) => {
+            const time =
+                startedAt !== undefined && m.sentAt !== undefined ? `[${formatElapsed(m.sentAt - startedAt)}] ` : "";
+            return `- ${time}**${m.sender}**: ${m.text.replace(/\s*\n\s*/g, " ")}`;
+        }),
+    ];
+
+    transcript.aiTurns.forEach((turn, index) => {
+        const timing = [
+            turn.thinkingMs !== undefined ? `thought for ${(turn.thinkingMs / 1000).toFixed(1)} s` : "",
+            turn.askedAt !== undefined && turn.answeredAt !== undefined
+                ? `answered after ${((turn.answeredAt - turn.askedAt) / 1000).toFixed(1)} s`
+                : "",
+        ].filter(Boolean);
+        lines.push(
+            "",
+            `## AI question ${index + 1}: ${turn.question}`,
+            "",
+            `- Answer: ${turn.answer}`,
+            `- Planned feature: ${turn.featureKey ?? "none"}`,
+            `- Eliminated: ${namesOf(turn.eliminatedIds)}`,
+            `- Restored: ${namesOf(turn.restoredIds)}`,
+            `- Remaining: ${namesOf(turn.remainingIds)}`,
+            ...(timing.length > 0 ? [`- Timing: ${timing.join(", ")}`] : []),
+            "",
+            ...formatAnalysisTable(turn.analysis),
+        );
+    });
+
+    if (transcript.pendingAIQuestion) {
+        lines.push(
+            "",
+            `## Unanswered AI question: ${transcript.pendingAIQuestion.question}`,
+            "",
+            ...formatAnalysisTable(transcript.pendingAIQuestion.analysis),
+        );
+    }
+
+    if (transcript.audit.length > 0) {
+        lines.push(
+            "",
+            "## Audit",
+            "",
+            "| AI's question | AI believed | Expected | Answer | Flags |",
+            "| --- | --- | --- | --- | --- |",
+        );
+        for (const entry of transcript.audit) {
+            const verdict = (value: boolean | null) => (value === null ? "-" : value ? "Yes" : "No");
+            const flags = [
+                entry.isVisionError ? "vision error" : "",
+                entry.isAnswerError ? "answer error" : "",
+                entry.isDisagreement ? "disagreement" : "",
+                entry.contradictsEarlierAnswer ? "contradicts earlier answer" : "",
+            ].filter(Boolean);
+            lines.push(
+                `| ${escapeCell(entry.question)} | ${verdict(entry.aiVerdict)} | ${verdict(entry.expectedVerdict)} | ${
+                    entry.answer
+                } | ${flags.join(", ") || "-"} |`,
+            );
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Downloads a transcript as a file named after the game's seed.
+ * @param transcript The transcript to download.
+ * @param format Whether to download the JSON or the Markdown version.
+ */
+export function downloadTranscript(transcript: GameTranscript, format: TranscriptFormat): void {
+    const content = format === "json" ? JSON.stringify(transcript, null, 2) : formatTranscriptAsMarkdown(transcript);
+    const type = format === "json" ? "application/json" : "text/markdown";
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `guess-who-${transcript.seed ?? transcript.exportedAt}.${format === "json" ? "json" : "md"}`;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,3 +1,5 @@
+import { type GameEvent } from "./engine/types";
+
 export type Character = {
     character_id: string;
     name: string;
@@ -8,8 +10,47 @@ export type Character = {
 export type Message = {
     sender: "PLAYER" | "AI" | "SYSTEM";
     text: string;
+    /** Identifies messages that can be updated later, e.g. an answer that is disputed. */
+    id?: string;
+    meta?: MessageMeta;
+    /** When the message was added, in milliseconds since the epoch. Missing in games saved before it was recorded. */
+    sentAt?: number;
+};
+
+/**
+ * The outcome of the player disputing one of the AI's answers.
+ */
+export type DisputeOutcome =
+    | { status: "pending" }
+    | {
+          status: "upheld" | "overturned";
+          /** The verdict after the careful re-evaluation. */
+          verdict: PlayerQuestionVerdict;
+          reasoning: string;
+          /** Whether the player restored the cards they flipped because of the overturned answer. */
+          restored?: boolean;
+      };
+
+/**
+ * An on-demand explanation of one of the AI's answers. It describes only the relevant part of the picture.
+ */
+export type AnswerExplanation = { status: "pending" } | { status: "ready"; text: string };
+
+/**
+ * Extra data attached to the AI's answer to one of the player's questions.
+ */
+export type AnswerMessageMeta = {
+    kind: "answer";
+    question: string;
+    verdict: "yes" | "no";
+    /** The cards the player flipped after this answer, recorded when they end their turn. */
+    eliminatedIds?: string[];
+    dispute?: DisputeOutcome;
+    explanation?: AnswerExplanation;
 };
 
+export type MessageMeta = AnswerMessageMeta;
+
 export enum GameState {
     SETUP,
     CUSTOM_SETUP,
@@ -23,6 +64,51 @@ export enum GameState {
 
 export type GameWinner = "PLAYER" | "AI" | null;
 
+/**
+ * How strong the AI opponent plays. The values are persisted, so they must not be renamed.
+ */
+export enum AIDifficulty {
+    EASY = "EASY",
+    NORMAL = "NORMAL",
+    HARD = "HARD",
+    EXPERT = "EXPERT",
+}
+
+/**
+ * Whether the game checks the player's eliminations. The values are persisted, so they must not be renamed.
+ * - `ASSIST`: warns before the end of the turn if the flipped cards do not match the AI's answer.
+ * - `STRICT`: no checks or warnings; the player is on their own.
+ */
+export enum PlayerAssistMode {
+    ASSIST = "ASSIST",
+    STRICT = "STRICT",
+}
+
+/**
+ * Whether the player may take back card flips and answers. The values are persisted, so they must not be renamed.
+ * - `CASUAL`: undo is available.
+ * - `COMPETITIVE`: no undo; every flip and answer counts.
+ */
+export enum UndoPolicy {
+    CASUAL = "CASUAL",
+    COMPETITIVE = "COMPETITIVE",
+}
+
+/**
+ * The outcome of a finished game, as recorded in the local game history.
+ */
+export type GameResult = {
+    winner: Exclude<GameWinner, null>;
+    reason: string;
+    difficulty: AIDifficulty;
+    /** The number of characters on the board. */
+    characterCount: number;
+    /** How many of the AI's answers the player disputed, and how many of those were overturned. */
+    disputes: number;
+    overturnedDisputes: number;
+    finishedAt: number;
+};
+
 export enum AIStatus {
     INITIALIZING,
     DOWNLOADABLE,
@@ -37,9 +123,198 @@ export type EliminationAnalysisResult = {
     name: string;
     has_feature: boolean;
     reasoning: string;
+    /** Share of independent analysis passes (0-1) that agreed with `has_feature`, when voting was used. */
+    confidence?: number;
+    /** Whether the player corrected this verdict while reviewing the analysis. */
+    corrected?: boolean;
+};
+
+/**
+ * How the AI judged a question the player asked about its secret character.
+ * - `unanswerable`: a yes/no question that cannot be decided from the picture (e.g. "Are they nice?").
+ * - `not_yes_no`: not a yes/no question at all (e.g. "What colour is their hair?").
+ */
+export type PlayerQuestionVerdict = "yes" | "no" | "unanswerable" | "not_yes_no";
+
+export type PlayerQuestionAnswer = {
+    verdict: PlayerQuestionVerdict;
+    /** A short explanation, shown to the player when the question cannot be answered. */
+    reason: string;
 };
 
 export type AIQuestionAndAnalysis = {
     question: string;
     analysis: EliminationAnalysisResult[];
-};
\ No newline at end of file
+};
+
+/**
+ * Something the AI has learned from one of its questions: the player's answer and the AI's verdict for every
+ * character it analyzed at the time.
+ */
+export type AIFact = {
+    question: string;
+    answer: "Yes" | "No";
+    analysis: EliminationAnalysisResult[];
+};
+
+/**
+ * One of the AI's question turns, kept so the player can step through the AI's reasoning later.
+ */
+export type AITurnRecord = {
+    question: string;
+    /** The planned feature behind the question, or `null` if the model chose the question itself. */
+    featureKey: string | null;
+    answer: "Yes" | "No";
+    /** The AI's verdict for every character it considered, as used for elimination. */
+    analysis: EliminationAnalysisResult[];
+    /** The characters the AI took off its board because of the answer. */
+    eliminatedIds: string[];
+    /** The characters the AI put back on its board after reconsidering earlier answers. */
+    restoredIds: string[];
+    /** The characters still on the AI's board after the turn. */
+    remainingIds: string[];
+    /** When the question was asked and answered, in milliseconds since the epoch, if known. */
+    askedAt?: number;
+    answeredAt?: number;
+    /** How long the AI took to come up with the question, including retries, if known. */
+    thinkingMs?: number;
+};
+
+/**
+ * One of the AI's questions, checked against the player's real card after the game.
+ */
+export type GameAuditEntry = {
+    question: string;
+    answer: "Yes" | "No";
+    /** What the AI believed about the player's card, or `null` if it no longer considered the card. */
+    aiVerdict: boolean | null;
+    /** Whether the player's card has the feature according to the pre-game board analysis, if known. */
+    expectedVerdict: boolean | null;
+    /** The AI misjudged the player's card. */
+    isVisionError: boolean;
+    /** The player's answer does not match their card. */
+    isAnswerError: boolean;
+    /** The AI and the player disagreed, but the board analysis cannot tell who was wrong. */
+    isDisagreement: boolean;
+    /** The player answered the same question differently earlier in the game. */
+    contradictsEarlierAnswer: boolean;
+};
+
+/**
+ * The AI's side of a saved game.
+ */
+export type SavedAIState = {
+    facts: AIFact[];
+    beliefs: CharacterBeliefs;
+    turnHistory: AITurnRecord[];
+    /** The AI's latest question and analysis, which may still be waiting for an answer. */
+    lastQuestion: string;
+    lastAnalysis: EliminationAnalysisResult[];
+    lastFeatureKey: string | null;
+};
+
+/**
+ * The player's side of a saved game.
+ */
+export type SavedPlayerState = {
+    /** The AI's answers about its secret character, so repeated questions get the same answer. */
+    answeredQuestions: { question: string; answer: PlayerQuestionAnswer }[];
+    disputes: number;
+    overturnedDisputes: number;
+    /** The latest answer and the cards that were already down when it arrived. */
+    eliminationBaseline: { answerId: string; eliminatedIds: string[] } | null;
+};
+
+/**
+ * An in-progress game, saved after every transition so it survives a reload.
+ */
+export type SavedGame = {
+    /**
+     * The engine events since the game started. The characters of `GAME_STARTED` are stored without images, since
+     * image URLs only live as long as the page; they are looked up by id again on resume.
+     */
+    events: GameEvent[];
+    messages: Message[];
+    boardAttributes: BoardAttributes;
+    ai: SavedAIState;
+    player: SavedPlayerState;
+    savedAt: number;
+};
+
+/**
+ * A record of a game for filing model-quality bugs and comparing prompt changes. It is read by tools outside the
+ * app, so fields must not be renamed; `version` is raised whenever the format changes.
+ */
+export type GameTranscript = {
+    version: 1;
+    exportedAt: number;
+    /** The seed the board and secrets were drawn with, or `null` for a game that cannot be reproduced. */
+    seed: string | null;
+    settings: {
+        difficulty: AIDifficulty;
+        isReviewModeEnabled: boolean;
+        isVotingEnabled: boolean;
+        assistMode: PlayerAssistMode;
+        undoPolicy: UndoPolicy;
+    };
+    characters: { id: string; name: string }[];
+    playerSecretId: string | null;
+    /** The AI's secret character, or `null` while the game is in progress, so an export cannot give it away. */
+    aiSecretId: string | null;
+    /**
+     * The name of the phase the game was in when it was exported, so unfinished games can be told apart. The name
+     * is stored rather than the enum value, which changes whenever the phases are reordered.
+     */
+    phase: keyof typeof GameState;
+    winner: GameWinner;
+    winReason: string;
+    messages: Message[];
+    /** Every answered AI question, with the analysis it was judged by. */
+    aiTurns: AITurnRecord[];
+    /** The AI's latest question if it has not been answered yet. */
+    pendingAIQuestion: { question: string; analysis: EliminationAnalysisResult[] } | null;
+    /** The AI's questions checked against the player's card, once the game is over. */
+    audit: GameAuditEntry[];
+};
+
+/** The AI's belief (0-1) that each character is the player's secret, keyed by `character_id`. */
+export type CharacterBeliefs = Record<string, number>;
+
+/**
+ * A structured description of a character's visible features, extracted once per character by the
+ * pre-game board analysis and reused on every AI turn.
+ */
+export type CharacterAttributes = {
+    apparent_gender: string;
+    hair_color: string;
+    hair_length: string;
+    facial_hair: string;
+    glasses: boolean;
+    hat: boolean;
+    earrings: boolean;
+    smiling: boolean;
+    accessories: string[];
+    background_color: string;
+};
+
+/** Attribute vectors for a board, keyed by `character_id`. */
+export type BoardAttributes = Record<string, CharacterAttributes>;
+
+/**
+ * A verdict the player corrected while reviewing the AI's analysis, as recorded in the local correction log.
+ */
+export type AnalysisCorrection = {
+    question: string;
+    /** The kind of feature the question is about, e.g. `hair_color` or `glasses`. */
+    featureType: string;
+    /** The id of the character (and its image) whose verdict was corrected. */
+    characterId: string;
+    /** The AI's verdict before the correction. */
+    aiVerdict: boolean;
+    correctedAt: number;
+};
+
+/**
+ * How often the player reviewed and corrected the AI's verdicts, per feature type.
+ */
+export type FeatureReliability = Record<string, { reviewed: number; corrected: number }>;